@@ -1,11 +1,231 @@
 import type {
+	IBinaryKeyData,
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
+	INodeParameterResourceLocator,
+	INodeProperties,
 	INodeType,
 	INodeTypeDescription,
 } from 'n8n-workflow';
 import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
-import { Database } from 'arangojs';
+import type { Database } from 'arangojs';
+import type { CreateCollectionOptions, KeyGenerator } from 'arangojs/collections';
+import type { CreateDatabaseOptions } from 'arangojs/databases';
+import { isArangoError } from 'arangojs/errors';
+import type { EdgeDefinitionOptions } from 'arangojs/graphs';
+import type { ExplainOptions, QueryOptions } from 'arangojs/queries';
+import type { AccessLevel, UserAccessLevelOptions, UserOptions } from 'arangojs/users';
+import { CollectionType } from 'arangojs/collections';
+import type { EnsureIndexOptions } from 'arangojs/indexes';
+import type { TransactionOptions } from 'arangojs/transactions';
+import type {
+	CreateViewOptions,
+	UpdateViewPropertiesOptions,
+	ViewPropertiesOptions,
+} from 'arangojs/views';
+
+import type {
+	EnsureFulltextIndexOptions,
+	EnsureVectorIndexOptions,
+	IFilterCondition,
+	ISubgraph,
+} from './GenericFunctions';
+import {
+	buildFilterExpression,
+	deduplicateSubgraph,
+	ensureIndex,
+	formatCursorOutput,
+	fuseRankedLists,
+	getArangoDbConnection,
+	getAttributePath,
+	getCollectionName,
+	getCollectionPropertiesOptions,
+	getConnectedComponents,
+	getGraphName,
+	getPageRank,
+	getTraversalDirection,
+	getVectorIndex,
+	getVectorScoreExpression,
+	readCursorBatches,
+	searchCollections,
+	searchDatabases,
+	searchDocumentCollections,
+	searchEdgeCollections,
+	searchGraphEdgeCollections,
+	searchGraphs,
+	searchGraphVertexCollections,
+	searchViews,
+	serializeSubgraph,
+	splitList,
+	subgraphFormats,
+	summarizeExplainPlan,
+	vectorMetrics,
+} from './GenericFunctions';
+
+/**
+ * ArangoDB error numbers for a user that already exists or does not exist.
+ */
+const userDuplicateErrorNum = 1702;
+const userNotFoundErrorNum = 1703;
+
+/**
+ * Options for reading a query result from its cursor, shared by every operation that runs a query.
+ */
+const cursorOptionFields: { [name: string]: INodeProperties } = {
+	batchSize: {
+		displayName: 'Batch Size',
+		name: 'batchSize',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 1000,
+		description: 'Number of rows to fetch from the server per request',
+	},
+	maxRows: {
+		displayName: 'Max Rows',
+		name: 'maxRows',
+		type: 'number',
+		typeOptions: {
+			minValue: 0,
+		},
+		default: 0,
+		description:
+			'Maximum number of rows to read from the result. Reading stops there, so a large result is never loaded completely. 0 reads all rows.',
+	},
+	outputMode: {
+		displayName: 'Output Mode',
+		name: 'outputMode',
+		type: 'options',
+		options: [
+			{
+				name: 'One Item per Batch',
+				value: 'batch',
+				description: 'Output one item with the rows of each batch fetched from the server',
+			},
+			{
+				name: 'One Item per Row',
+				value: 'row',
+			},
+			{
+				name: 'Single Item With Array',
+				value: 'array',
+				description: 'Output one item with all rows in a results array',
+			},
+		],
+		default: 'row',
+	},
+	stream: {
+		displayName: 'Stream',
+		name: 'stream',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether the server produces the result while it is read instead of computing it completely first. This keeps memory low on the server for large results.',
+	},
+	ttl: {
+		displayName: 'TTL',
+		name: 'ttl',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 30,
+		description: 'Seconds the server keeps the cursor alive between reading two batches',
+	},
+};
+
+/**
+ * Fields of a single attribute condition, shared by the filter builders of all resources.
+ */
+const filterConditionFields: INodeProperties[] = [
+	{
+		displayName: 'Attribute',
+		name: 'attribute',
+		type: 'string',
+		default: '',
+		placeholder: 'e.g. metadata.tenant',
+		description: 'The attribute path to compare, using dots for nested attributes',
+	},
+	{
+		displayName: 'Operator',
+		name: 'operator',
+		type: 'options',
+		options: [
+			{
+				name: 'Contains',
+				value: 'contains',
+				description: 'The attribute is an array that contains the value',
+			},
+			{
+				name: 'Equal',
+				value: 'equal',
+			},
+			{
+				name: 'Exists',
+				value: 'exists',
+				description: 'The attribute is set and not null',
+			},
+			{
+				name: 'Greater Than',
+				value: 'gt',
+			},
+			{
+				name: 'Greater Than or Equal',
+				value: 'gte',
+			},
+			{
+				name: 'In',
+				value: 'in',
+			},
+			{
+				name: 'Less Than',
+				value: 'lt',
+			},
+			{
+				name: 'Less Than or Equal',
+				value: 'lte',
+			},
+			{
+				name: 'Like',
+				value: 'like',
+			},
+			{
+				name: 'Not Contains',
+				value: 'notContains',
+				description: 'The attribute is an array that does not contain the value',
+			},
+			{
+				name: 'Not Equal',
+				value: 'notEqual',
+			},
+			{
+				name: 'Not Exists',
+				value: 'notExists',
+				description: 'The attribute is missing or null',
+			},
+			{
+				name: 'Not In',
+				value: 'notIn',
+			},
+		],
+		default: 'equal',
+	},
+	{
+		displayName: 'Value',
+		name: 'value',
+		type: 'string',
+		displayOptions: {
+			hide: {
+				operator: ['exists', 'notExists'],
+			},
+		},
+		default: '',
+		description:
+			'The value to compare with. JSON values such as numbers, booleans and arrays are parsed, anything else is a string.',
+	},
+];
 
 export class ArangoDb implements INodeType {
 	description: INodeTypeDescription = {
@@ -13,7 +233,8 @@ export class ArangoDb implements INodeType {
 		name: 'arangoDb',
 		icon: 'file:arangodb.svg',
 		group: ['database'],
-		version: 1,
+		version: [1, 1.1],
+		defaultVersion: 1.1,
 		description: 'Perform operations on ArangoDB including documents, vector search, and graphs',
 		defaults: {
 			name: 'ArangoDB',
@@ -42,6 +263,10 @@ export class ArangoDb implements INodeType {
 						name: 'Custom',
 						value: 'custom',
 					},
+					{
+						name: 'Database',
+						value: 'database',
+					},
 					{
 						name: 'Document',
 						value: 'document',
@@ -50,6 +275,18 @@ export class ArangoDb implements INodeType {
 						name: 'Graph',
 						value: 'graph',
 					},
+					{
+						name: 'Index',
+						value: 'index',
+					},
+					{
+						name: 'Search',
+						value: 'search',
+					},
+					{
+						name: 'User',
+						value: 'user',
+					},
 					{
 						name: 'Vector Search',
 						value: 'vectorSearch',
@@ -60,567 +297,4136 @@ export class ArangoDb implements INodeType {
 			{
 				displayName: 'Database',
 				name: 'database',
-				type: 'string',
-				default: '_system',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '_system' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchDatabases',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. _system',
+					},
+				],
+				displayOptions: {
+					hide: {
+						resource: ['database', 'user'],
+					},
+				},
 				required: true,
-				description: 'The database to connect to',
+				description:
+					'The database to connect to. Can differ per item, for example to run the same operation for several tenant databases.',
 			},
 
-			// Document Operations
+			// Database Operations
 			{
 				displayName: 'Operation',
-				name: 'documentOperation',
+				name: 'databaseOperation',
 				type: 'options',
 				displayOptions: {
 					show: {
-						resource: ['document'],
+						resource: ['database'],
 					},
 				},
 				options: [
 					{
 						name: 'Create',
 						value: 'create',
-						description: 'Create a new document',
+						description: 'Create a new database',
 					},
 					{
 						name: 'Delete',
 						value: 'delete',
-						description: 'Delete a document',
+						description: 'Delete a database',
 					},
 					{
 						name: 'Get',
 						value: 'get',
-						description: 'Get a document by key',
-					},
-					{
-						name: 'Get Many',
-						value: 'getMany',
-						description: 'Get multiple documents',
-					},
-					{
-						name: 'Query',
-						value: 'query',
-						description: 'Execute an AQL query',
+						description: 'Get information about a database',
 					},
 					{
-						name: 'Replace',
-						value: 'replace',
-						description: 'Replace a document',
+						name: 'List',
+						value: 'list',
+						description: 'List the databases on the server',
 					},
-					{
-						name: 'Update',
-						value: 'update',
-						description: 'Update a document',
-					}
 				],
-				default: 'create',
+				default: 'list',
 				noDataExpression: true,
 			},
 			{
-				displayName: 'Collection',
-				name: 'collection',
+				displayName: 'Database Name',
+				name: 'databaseName',
 				type: 'string',
 				displayOptions: {
 					show: {
-						resource: ['document'],
-						documentOperation: ['create', 'delete', 'get', 'getMany', 'update', 'replace'],
+						resource: ['database'],
+						databaseOperation: ['create'],
 					},
 				},
 				default: '',
 				required: true,
-				description: 'The collection to operate on',
+				description: 'The name of the database to create',
 			},
 			{
-				displayName: 'Document Key',
-				name: 'documentKey',
-				type: 'string',
+				displayName: 'Database',
+				name: 'targetDatabase',
+				type: 'resourceLocator',
 				displayOptions: {
 					show: {
-						resource: ['document'],
-						documentOperation: ['delete', 'get', 'update', 'replace'],
+						resource: ['database'],
+						databaseOperation: ['delete', 'get'],
 					},
 				},
-				default: '',
-				required: true,
-				description: 'The key of the document',
-			},
-			{
-				displayName: 'Document Data',
-				name: 'documentData',
-				type: 'json',
-				displayOptions: {
-					show: {
-						resource: ['document'],
-						documentOperation: ['create', 'update', 'replace'],
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchDatabases',
+							searchable: true,
+						},
 					},
-				},
-				default: '{}',
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. tenant_1',
+					},
+				],
 				required: true,
-				description: 'The document data as JSON',
 			},
 			{
-				displayName: 'Return New Document',
-				name: 'returnNew',
+				displayName: 'Only Accessible Databases',
+				name: 'onlyAccessible',
 				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['document'],
-						documentOperation: ['create', 'update', 'replace'],
+						resource: ['database'],
+						databaseOperation: ['list'],
 					},
 				},
-				default: true,
-				description: 'Whether to return the new document after the operation',
+				default: false,
+				description:
+					'Whether to list only the databases the user can access, instead of all databases. Listing all databases requires access to the _system database.',
 			},
 			{
-				displayName: 'AQL Query',
-				name: 'aqlQuery',
-				type: 'string',
+				displayName: 'Users',
+				name: 'databaseUsers',
+				type: 'fixedCollection',
+				placeholder: 'Add User',
+				typeOptions: {
+					multipleValues: true,
+				},
 				displayOptions: {
 					show: {
-						resource: ['document'],
-						documentOperation: ['query'],
+						resource: ['database'],
+						databaseOperation: ['create'],
 					},
 				},
-				default: '',
-				required: true,
-				description: 'The AQL query to execute',
-				typeOptions: {
-					rows: 5,
-				},
+				default: {},
+				description: 'Users to create with access to the new database',
+				options: [
+					{
+						displayName: 'Users',
+						name: 'users',
+						values: [
+							{
+								displayName: 'Username',
+								name: 'username',
+								type: 'string',
+								default: '',
+							},
+							{
+								displayName: 'Password',
+								name: 'password',
+								type: 'string',
+								typeOptions: {
+									password: true,
+								},
+								default: '',
+							},
+							{
+								displayName: 'Active',
+								name: 'active',
+								type: 'boolean',
+								default: true,
+								description: 'Whether the user can log in',
+							},
+						],
+					},
+				],
 			},
 			{
-				displayName: 'Query Parameters',
-				name: 'queryParameters',
-				type: 'json',
+				displayName: 'Options',
+				name: 'databaseCreateOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
 				displayOptions: {
 					show: {
-						resource: ['document'],
-						documentOperation: ['query'],
+						resource: ['database'],
+						databaseOperation: ['create'],
 					},
 				},
-				default: '{}',
-				description: 'Parameters to bind to the query',
+				default: {},
+				options: [
+					{
+						displayName: 'Ignore If Exists',
+						name: 'ignoreIfExists',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to return the existing database instead of failing when a database with the name already exists',
+					},
+					{
+						displayName: 'Replication Factor',
+						name: 'replicationFactor',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description: 'Default replication factor of new collections in the database, cluster only',
+					},
+					{
+						displayName: 'Sharding',
+						name: 'sharding',
+						type: 'options',
+						options: [
+							{
+								name: 'Flexible',
+								value: 'flexible',
+								description: 'Shards of different collections can be on different servers',
+							},
+							{
+								name: 'Single',
+								value: 'single',
+								description: 'All collections follow the shard distribution of a single leader collection',
+							},
+						],
+						default: 'flexible',
+						description: 'Sharding method of the database, cluster only',
+					},
+					{
+						displayName: 'Write Concern',
+						name: 'writeConcern',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description:
+							'Default number of shard copies that must be in sync for a write to succeed, cluster only',
+					},
+				],
 			},
 			{
-				displayName: 'Limit',
-				name: 'limit',
-				type: 'number',
-				typeOptions: {
-					minValue: 1,
-				},
+				displayName: 'Options',
+				name: 'databaseDeleteOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
 				displayOptions: {
 					show: {
-						resource: ['document'],
-						documentOperation: ['getMany'],
+						resource: ['database'],
+						databaseOperation: ['delete'],
 					},
 				},
-				default: 50,
-				description: 'Max number of results to return',
+				default: {},
+				options: [
+					{
+						displayName: 'Ignore If Missing',
+						name: 'ignoreIfMissing',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to succeed instead of failing when the database does not exist',
+					},
+				],
 			},
 
-			// Vector Search Operations
+			// User Operations
 			{
-				displayName: 'Vector Operation',
-				name: 'vectorOperation',
+				displayName: 'Operation',
+				name: 'userOperation',
 				type: 'options',
 				displayOptions: {
 					show: {
-						resource: ['vectorSearch'],
+						resource: ['user'],
 					},
 				},
 				options: [
 					{
-						name: 'Search Cosine',
-						value: 'searchCosine',
-						description: 'Perform a vector similarity search using cosine similarity',
+						name: 'Clear Access Level',
+						value: 'clearAccess',
+						description: 'Remove the access level of a user for a database or collection',
 					},
 					{
-						name: 'Search L2',
-						value: 'searchL2',
-						description: 'Perform a vector similarity search using L2 distance',
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new user',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete a user',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a user',
+					},
+					{
+						name: 'Get Access Level',
+						value: 'getAccess',
+						description: 'Get the access level of a user for a database or collection',
+					},
+					{
+						name: 'List',
+						value: 'list',
+						description: 'List all users',
+					},
+					{
+						name: 'Set Access Level',
+						value: 'setAccess',
+						description: 'Set the access level of a user for a database or collection',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update the password, status or extra data of a user',
 					},
 				],
-				default: 'searchCosine',
+				default: 'list',
 				noDataExpression: true,
 			},
 			{
-				displayName: 'Vector Collection',
-				name: 'vectorCollection',
+				displayName: 'Username',
+				name: 'username',
 				type: 'string',
 				displayOptions: {
 					show: {
-						resource: ['vectorSearch'],
+						resource: ['user'],
+					},
+					hide: {
+						userOperation: ['list'],
 					},
 				},
 				default: '',
 				required: true,
-				description: 'The collection containing vectors',
 			},
 			{
-				displayName: 'Vector Field',
-				name: 'vectorField',
+				displayName: 'Password',
+				name: 'userPassword',
 				type: 'string',
+				typeOptions: {
+					password: true,
+				},
 				displayOptions: {
 					show: {
-						resource: ['vectorSearch'],
-						vectorOperation: ['searchCosine', 'searchL2'],
+						resource: ['user'],
+						userOperation: ['create'],
 					},
 				},
-				default: 'vector',
-				required: true,
-				description: 'The field containing the vector data',
+				default: '',
 			},
 			{
-				displayName: 'Query Vector',
-				name: 'queryVector',
-				type: 'json',
+				displayName: 'Options',
+				name: 'userCreateOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
 				displayOptions: {
 					show: {
-						resource: ['vectorSearch'],
-						vectorOperation: ['searchCosine', 'searchL2'],
+						resource: ['user'],
+						userOperation: ['create'],
 					},
 				},
-				default: '[1, 2, 3]',
-				required: true,
-				description: 'The vector to search for (as JSON array)',
+				default: {},
+				options: [
+					{
+						displayName: 'Active',
+						name: 'active',
+						type: 'boolean',
+						default: true,
+						description: 'Whether the user can log in',
+					},
+					{
+						displayName: 'Extra',
+						name: 'extra',
+						type: 'json',
+						default: '{}',
+						description: 'Additional data to store with the user, as JSON',
+					},
+					{
+						displayName: 'Ignore If Exists',
+						name: 'ignoreIfExists',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to return the existing user instead of failing when a user with the name already exists',
+					},
+				],
 			},
 			{
-				displayName: 'Top K',
-				name: 'topK',
-				type: 'number',
+				displayName: 'Update Fields',
+				name: 'userUpdateFields',
+				type: 'collection',
+				placeholder: 'Add Field',
 				displayOptions: {
 					show: {
-						resource: ['vectorSearch'],
-						vectorOperation: ['searchCosine', 'searchL2'],
+						resource: ['user'],
+						userOperation: ['update'],
 					},
 				},
-				default: 10,
-				description: 'Number of nearest neighbors to return',
+				default: {},
+				options: [
+					{
+						displayName: 'Active',
+						name: 'active',
+						type: 'boolean',
+						default: true,
+						description: 'Whether the user can log in',
+					},
+					{
+						displayName: 'Extra',
+						name: 'extra',
+						type: 'json',
+						default: '{}',
+						description: 'Additional data to store with the user, as JSON. Replaces the existing extra data.',
+					},
+					{
+						displayName: 'Password',
+						name: 'password',
+						type: 'string',
+						typeOptions: {
+							password: true,
+						},
+						default: '',
+					},
+				],
 			},
-
-			// Graph Operations
 			{
-				displayName: 'Graph Operation',
-				name: 'graphOperation',
-				type: 'options',
+				displayName: 'Options',
+				name: 'userDeleteOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
 				displayOptions: {
 					show: {
-						resource: ['graph'],
+						resource: ['user'],
+						userOperation: ['delete'],
 					},
 				},
+				default: {},
 				options: [
 					{
-						name: 'Add Edge',
-						value: 'addEdge',
-						description: 'Add an edge to the graph',
+						displayName: 'Ignore If Missing',
+						name: 'ignoreIfMissing',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to succeed instead of failing when the user does not exist',
 					},
-					{
-						name: 'Add Vertex',
-						value: 'addVertex',
-						description: 'Add a vertex to the graph',
+				],
+			},
+			{
+				displayName: 'Database',
+				name: 'accessDatabase',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['user'],
+						userOperation: ['clearAccess', 'getAccess', 'setAccess'],
 					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
 					{
-						name: 'Create Graph',
-						value: 'createGraph',
-						description: 'Create a new graph',
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchDatabases',
+							searchable: true,
+						},
 					},
 					{
-						name: 'Delete Edge',
-						value: 'deleteEdge',
-						description: 'Delete an edge from the graph',
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. tenant_1',
 					},
-					{
-						name: 'Delete Graph',
-						value: 'deleteGraph',
-						description: 'Delete a graph',
+				],
+				required: true,
+				description: 'The database the access level applies to. Use * for the default of all databases.',
+			},
+			{
+				displayName: 'Collection Name',
+				name: 'accessCollection',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['user'],
+						userOperation: ['clearAccess', 'getAccess', 'setAccess'],
 					},
-					{
-						name: 'Delete Vertex',
-						value: 'deleteVertex',
-						description: 'Delete a vertex from the graph',
+				},
+				default: '',
+				placeholder: 'e.g. orders',
+				description:
+					'The collection the access level applies to. Leave empty for the database level, or use * for the default of all collections in the database.',
+			},
+			{
+				displayName: 'Access Level',
+				name: 'accessLevel',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['user'],
+						userOperation: ['setAccess'],
 					},
+				},
+				options: [
 					{
-						name: 'Get Neighbors',
-						value: 'getNeighbors',
-						description: 'Get neighbors of a vertex',
+						name: 'No Access',
+						value: 'none',
 					},
 					{
-						name: 'Shortest Path',
-						value: 'shortestPath',
-						description: 'Find shortest path between vertices',
+						name: 'Read Only',
+						value: 'ro',
 					},
 					{
-						name: 'Traverse',
-						value: 'traverse',
-						description: 'Traverse the graph',
-					}
+						name: 'Read/Write',
+						value: 'rw',
+						description: 'Read and write access, which also allows administrating a database',
+					},
 				],
-				default: 'traverse',
-				noDataExpression: true,
+				default: 'ro',
 			},
 
-			// Custom Operations
+			// Document Operations
 			{
-				displayName: 'Custom Operation',
-				name: 'customOperation',
+				displayName: 'Operation',
+				name: 'documentOperation',
 				type: 'options',
 				displayOptions: {
 					show: {
-						resource: ['custom'],
+						resource: ['document'],
 					},
 				},
 				options: [
 					{
-						name: 'Execute AQL',
-						value: 'executeAql',
-						description: 'Execute a custom AQL query',
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new document',
 					},
 					{
-						name: 'Run Transaction',
-						value: 'runTransaction',
-						description: 'Run a custom transaction',
+						name: 'Create or Update',
+						value: 'upsert',
+						description: 'Create a new record, or update the current one if it already exists (upsert)',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete a document',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a document by key',
+					},
+					{
+						name: 'Get Many',
+						value: 'getMany',
+						description: 'Get multiple documents',
+					},
+					{
+						name: 'Query',
+						value: 'query',
+						description: 'Execute an AQL query',
+					},
+					{
+						name: 'Replace',
+						value: 'replace',
+						description: 'Replace a document',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update a document',
 					},
 				],
-				default: 'executeAql',
+				default: 'create',
 				noDataExpression: true,
 			},
 			{
-				displayName: 'AQL Query',
-				name: 'customAqlQuery',
-				type: 'string',
+				displayName: 'Collection',
+				name: 'collection',
+				type: 'resourceLocator',
 				displayOptions: {
 					show: {
-						resource: ['custom'],
-						customOperation: ['executeAql'],
+						resource: ['document'],
+						documentOperation: ['create', 'delete', 'get', 'getMany', 'update', 'replace', 'upsert'],
 					},
 				},
-				default: '',
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. users',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. 12345',
+					},
+				],
 				required: true,
-				description: 'The custom AQL query to execute',
-				typeOptions: {
-					rows: 10,
-				},
+				description: 'The collection to operate on',
 			},
 			{
-				displayName: 'Bind Variables',
-				name: 'bindVariables',
-				type: 'json',
+				displayName: 'Document Key',
+				name: 'documentKey',
+				type: 'string',
 				displayOptions: {
 					show: {
-						resource: ['custom'],
-						customOperation: ['executeAql', 'runTransaction'],
+						resource: ['document'],
+						documentOperation: ['delete', 'get', 'update', 'replace'],
 					},
 				},
-				default: '{}',
-				description: 'Variables to bind to the query or transaction',
+				default: '',
+				required: true,
+				description: 'The key of the document',
 			},
 			{
-				displayName: 'Transaction Collections',
-				name: 'transactionCollections',
+				displayName: 'Document Data',
+				name: 'documentData',
 				type: 'json',
 				displayOptions: {
 					show: {
-						resource: ['custom'],
-						customOperation: ['runTransaction'],
+						resource: ['document'],
+						documentOperation: ['create', 'update', 'replace', 'upsert'],
 					},
 				},
-				default: '{"read": [], "write": [], "exclusive": []}',
+				default: '{}',
 				required: true,
-				description: 'Collections involved in the transaction',
+				description: 'The document data as JSON',
 			},
 			{
-				displayName: 'Transaction Action',
-				name: 'transactionAction',
+				displayName: 'Match Attributes',
+				name: 'matchAttributes',
 				type: 'string',
 				displayOptions: {
 					show: {
-						resource: ['custom'],
-						customOperation: ['runTransaction'],
+						resource: ['document'],
+						documentOperation: ['upsert'],
 					},
 				},
-				default: 'function (params) { const db = require(\'@arangodb\').db; return db._query(`RETURN { message: \'Hello from transaction\', params: ${JSON.stringify(params)} }`).toArray(); }',
+				default: '_key',
 				required: true,
-				description: 'The transaction action code (JavaScript function as string)',
-				typeOptions: {
-					rows: 10,
-				},
-			},
-			{
-				displayName: 'Return Count',
-				name: 'returnCount',
-				type: 'boolean',
-				displayOptions: {
-					show: {
-						resource: ['custom'],
-						customOperation: ['executeAql'],
-					},
-				},
-				default: false,
-				description: 'Whether to return the count of results',
+				description:
+					'Comma-separated list of attributes used to look up an existing document. Their values are taken from the document data.',
 			},
 			{
-				displayName: 'Batch Size',
-				name: 'batchSize',
-				type: 'number',
+				displayName: 'Update Data',
+				name: 'updateData',
+				type: 'json',
 				displayOptions: {
 					show: {
-						resource: ['custom'],
-						customOperation: ['executeAql'],
+						resource: ['document'],
+						documentOperation: ['upsert'],
 					},
 				},
-				default: 1000,
-				description: 'Number of results to return in each batch',
+				default: '{}',
+				description:
+					'The data to apply when a matching document exists, as JSON. Leave empty to use the document data.',
 			},
-			
-			// Collection Operations
 			{
-				displayName: 'Operation',
-				name: 'collectionOperation',
+				displayName: 'Update Mode',
+				name: 'upsertMode',
 				type: 'options',
 				displayOptions: {
 					show: {
-						resource: ['collection'],
+						resource: ['document'],
+						documentOperation: ['upsert'],
 					},
 				},
 				options: [
 					{
-						name: 'Create',
-						value: 'create',
-						description: 'Create a new collection',
+						name: 'Update (Merge)',
+						value: 'update',
+						description: 'Merge the update data into the existing document',
 					},
 					{
-						name: 'Delete',
-						value: 'delete',
-						description: 'Delete a collection',
+						name: 'Replace',
+						value: 'replace',
+						description: 'Replace the existing document with the update data',
 					},
 				],
-				default: 'create',
-				noDataExpression: true,
+				default: 'update',
+				description: 'How to modify a document that already exists',
 			},
 			{
-				displayName: 'Collection Name',
-				name: 'collectionName',
-				type: 'string',
+				displayName: 'Return New Document',
+				name: 'returnNew',
+				type: 'boolean',
 				displayOptions: {
 					show: {
-						resource: ['collection'],
-						collectionOperation: ['create', 'delete'],
+						resource: ['document'],
+						documentOperation: ['create', 'update', 'replace'],
 					},
 				},
-				default: '',
-				required: true,
-				description: 'The name of the collection',
+				default: true,
+				description: 'Whether to return the new document after the operation',
 			},
-
 			{
-				displayName: 'Filter',
-				name: 'filter',
-				type: 'json',
+				displayName: 'Bulk Mode',
+				name: 'bulkMode',
+				type: 'boolean',
 				displayOptions: {
 					show: {
 						resource: ['document'],
-						documentOperation: ['getMany'],
+						documentOperation: ['create', 'delete', 'update', 'replace'],
 					},
 				},
-				default: '{}',
-				description: 'Optional filter to apply to the documents (JSON)',
+				default: false,
+				description:
+					'Whether to group input items into batches and write them with the multi-document API instead of one request per item',
 			},
-
 			{
-				displayName: 'Graph Name',
-				name: 'graphName',
-				type: 'string',
+				displayName: 'Bulk Batch Size',
+				name: 'bulkBatchSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
 				displayOptions: {
 					show: {
-						resource: ['graph'],
+						resource: ['document'],
+						documentOperation: ['create', 'delete', 'update', 'replace'],
+						bulkMode: [true],
 					},
 				},
-				default: '',
-				required: true,
-				description: 'The name of the graph',
+				default: 1000,
+				description: 'Number of input items to send to ArangoDB in each request',
 			},
 			{
-				displayName: 'Vertex Collections',
-				name: 'vertexCollections',
+				displayName: 'AQL Query',
+				name: 'aqlQuery',
 				type: 'string',
 				displayOptions: {
 					show: {
-						resource: ['graph'],
-						graphOperation: ['createGraph'],
+						resource: ['document'],
+						documentOperation: ['query'],
 					},
 				},
 				default: '',
 				required: true,
-				description: 'Comma-separated list of vertex collections',
+				description: 'The AQL query to execute',
+				typeOptions: {
+					rows: 5,
+				},
 			},
 			{
-				displayName: 'Edge Definitions',
-				name: 'edgeDefinitions',
+				displayName: 'Query Parameters',
+				name: 'queryParameters',
 				type: 'json',
 				displayOptions: {
 					show: {
-						resource: ['graph'],
-						graphOperation: ['createGraph'],
+						resource: ['document'],
+						documentOperation: ['query'],
 					},
 				},
-				default: '[{"collection": "edges", "from": ["vertices"], "to": ["vertices"]}]',
+				default: '{}',
+				description: 'Parameters to bind to the query',
+			},
+			{
+				displayName: 'Cursor Options',
+				name: 'cursorOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						documentOperation: ['query'],
+					},
+				},
+				default: {},
+				options: [
+					cursorOptionFields.batchSize,
+					cursorOptionFields.maxRows,
+					cursorOptionFields.outputMode,
+					cursorOptionFields.stream,
+					cursorOptionFields.ttl,
+				],
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						documentOperation: ['getMany'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						documentOperation: ['getMany'],
+						returnAll: [false],
+					},
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Filters',
+				name: 'getManyFilters',
+				type: 'fixedCollection',
+				placeholder: 'Add Condition',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						documentOperation: ['getMany'],
+					},
+				},
+				default: {},
+				description: 'Conditions the returned documents must match',
+				options: [
+					{
+						displayName: 'Conditions',
+						name: 'conditions',
+						values: filterConditionFields,
+					},
+				],
+			},
+			{
+				displayName: 'Combine Filters',
+				name: 'getManyFilterCombinator',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						documentOperation: ['getMany'],
+					},
+				},
+				options: [
+					{
+						name: 'All Conditions (AND)',
+						value: 'AND',
+					},
+					{
+						name: 'Any Condition (OR)',
+						value: 'OR',
+					},
+				],
+				default: 'AND',
+				description: 'How to combine the filter conditions',
+			},
+			{
+				displayName: 'Sort',
+				name: 'sort',
+				type: 'fixedCollection',
+				placeholder: 'Add Sort Field',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						documentOperation: ['getMany'],
+					},
+				},
+				default: {},
+				description: 'Attributes to sort the documents by, in order of precedence',
+				options: [
+					{
+						displayName: 'Fields',
+						name: 'fields',
+						values: [
+							{
+								displayName: 'Attribute',
+								name: 'attribute',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. createdAt',
+								description: 'The attribute path to sort by, using dots for nested attributes',
+							},
+							{
+								displayName: 'Direction',
+								name: 'direction',
+								type: 'options',
+								options: [
+									{
+										name: 'Ascending',
+										value: 'ASC',
+									},
+									{
+										name: 'Descending',
+										value: 'DESC',
+									},
+								],
+								default: 'ASC',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Options',
+				name: 'getManyOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						documentOperation: ['getMany'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Batch Size',
+						name: 'batchSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1000,
+						description: 'Number of documents to fetch from the cursor per request',
+					},
+					{
+						displayName: 'Exclude Attributes',
+						name: 'excludeAttributes',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. _rev,embedding',
+						description: 'Comma-separated top-level attributes to remove from the returned documents',
+					},
+					{
+						displayName: 'Include Attributes',
+						name: 'includeAttributes',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. _key,name,email',
+						description:
+							'Comma-separated top-level attributes to return. Leave empty to return whole documents.',
+					},
+					{
+						displayName: 'Offset',
+						name: 'offset',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: 'Number of documents to skip',
+					},
+				],
+			},
+
+			// Vector Search Operations
+			{
+				displayName: 'Vector Operation',
+				name: 'vectorOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+					},
+				},
+				options: [
+					{
+						name: 'Hybrid Search',
+						value: 'hybridSearch',
+						description: 'Combine vector similarity and BM25 keyword search with rank fusion',
+					},
+					{
+						name: 'Search Cosine',
+						value: 'searchCosine',
+						description: 'Perform a vector similarity search using cosine similarity',
+					},
+					{
+						name: 'Search Inner Product',
+						value: 'searchInnerProduct',
+						description: 'Perform a vector similarity search using the inner product',
+					},
+					{
+						name: 'Search L2',
+						value: 'searchL2',
+						description: 'Perform a vector similarity search using L2 distance',
+					},
+				],
+				default: 'searchCosine',
+				noDataExpression: true,
+			},
+			{
+				displayName: 'Vector Collection',
+				name: 'vectorCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchDocumentCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. embeddings',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. 12345',
+					},
+				],
+				required: true,
+				description: 'The collection containing vectors',
+			},
+			{
+				displayName: 'Vector Field',
+				name: 'vectorField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+					},
+				},
+				default: 'vector',
+				required: true,
+				description: 'The field containing the vector data',
+			},
+			{
+				displayName: 'Query Vector',
+				name: 'queryVector',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+					},
+				},
+				default: '[1, 2, 3]',
+				required: true,
+				description: 'The vector to search for (as JSON array)',
+			},
+			{
+				displayName: 'Top K',
+				name: 'topK',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+					},
+				},
+				default: 10,
+				description: 'Number of nearest neighbors to return',
+			},
+			{
+				displayName: 'Metric',
+				name: 'hybridMetric',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+					},
+				},
+				options: [
+					{
+						name: 'Cosine',
+						value: 'cosine',
+					},
+					{
+						name: 'Inner Product',
+						value: 'innerProduct',
+					},
+					{
+						name: 'L2',
+						value: 'l2',
+					},
+				],
+				default: 'cosine',
+				description: 'The metric used to score the vector search',
+			},
+			{
+				displayName: 'View',
+				name: 'hybridView',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchViews',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. articles_view',
+					},
+				],
+				required: true,
+				description: 'The ArangoSearch view used for the keyword search',
+			},
+			{
+				displayName: 'Search Text',
+				name: 'hybridSearchText',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'The text to search for with BM25',
+			},
+			{
+				displayName: 'Search Field',
+				name: 'hybridSearchField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+					},
+				},
+				default: 'text',
+				required: true,
+				description: 'The indexed attribute to search, using dots for nested attributes',
+			},
+			{
+				displayName: 'Analyzer',
+				name: 'hybridAnalyzer',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+					},
+				},
+				default: 'text_en',
+				description: 'The analyzer used to tokenize the search text, as configured on the view',
+			},
+			{
+				displayName: 'Fusion Method',
+				name: 'fusionMethod',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+					},
+				},
+				options: [
+					{
+						name: 'Reciprocal Rank Fusion',
+						value: 'rrf',
+						description: 'Combine the ranks of each document in both result lists',
+					},
+					{
+						name: 'Weighted Score',
+						value: 'weighted',
+						description: 'Combine the normalised scores of both searches with weights',
+					},
+				],
+				default: 'rrf',
+				description: 'How to combine the vector and keyword results',
+			},
+			{
+				displayName: 'RRF K',
+				name: 'rrfK',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+						fusionMethod: ['rrf'],
+					},
+				},
+				default: 60,
+				description: 'Constant added to each rank. Higher values reduce the weight of top ranks.',
+			},
+			{
+				displayName: 'Vector Weight',
+				name: 'vectorWeight',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 2,
+				},
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+						fusionMethod: ['weighted'],
+					},
+				},
+				default: 0.5,
+				description: 'Weight of the normalised vector score',
+			},
+			{
+				displayName: 'Keyword Weight',
+				name: 'keywordWeight',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 2,
+				},
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+						fusionMethod: ['weighted'],
+					},
+				},
+				default: 0.5,
+				description: 'Weight of the normalised BM25 score',
+			},
+			{
+				displayName: 'Candidates per Search',
+				name: 'candidateCount',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch'],
+					},
+				},
+				default: 50,
+				description: 'Number of results to fetch from each search before fusing them',
+			},
+			// Nodes saved before vector index support keep the exact search they were created with
+			{
+				displayName: 'Search Mode',
+				name: 'vectorSearchMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+						'@version': [1],
+					},
+				},
+				options: [
+					{
+						name: 'Approximate (Vector Index)',
+						value: 'approximate',
+						description: 'Use a vector index on the vector field for approximate nearest-neighbour search',
+					},
+					{
+						name: 'Exact (Full Scan)',
+						value: 'exact',
+						description: 'Score every document in the collection',
+					},
+				],
+				default: 'exact',
+				description: 'How to find the nearest neighbors',
+			},
+			{
+				displayName: 'Search Mode',
+				name: 'vectorSearchMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+						'@version': [{ _cnd: { gte: 1.1 } }],
+					},
+				},
+				options: [
+					{
+						name: 'Approximate (Vector Index)',
+						value: 'approximate',
+						description: 'Use a vector index on the vector field for approximate nearest-neighbour search',
+					},
+					{
+						name: 'Exact (Full Scan)',
+						value: 'exact',
+						description: 'Score every document in the collection',
+					},
+				],
+				default: 'approximate',
+				description: 'How to find the nearest neighbors',
+			},
+			{
+				displayName: 'N Probe',
+				name: 'nProbe',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+						vectorSearchMode: ['approximate'],
+					},
+				},
+				default: 0,
+				description:
+					'Number of neighbouring centroids the vector index searches. Higher values are more accurate but slower, 0 uses the index default.',
+			},
+			{
+				displayName: 'Fall Back to Exact Search',
+				name: 'fallbackToExact',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+						vectorSearchMode: ['approximate'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to score every document when the vector field has no vector index with a matching metric, or the index does not store a filtered attribute, instead of failing',
+			},
+			{
+				displayName: 'Filters',
+				name: 'vectorFilters',
+				type: 'fixedCollection',
+				placeholder: 'Add Condition',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+					},
+				},
+				default: {},
+				description:
+					'Conditions documents must match before they are scored. In approximate mode every filtered attribute must be a stored value of the vector index, otherwise the search fails unless it falls back to exact search.',
+				options: [
+					{
+						displayName: 'Conditions',
+						name: 'conditions',
+						values: filterConditionFields,
+					},
+				],
+			},
+			{
+				displayName: 'Combine Filters',
+				name: 'vectorFilterCombinator',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+					},
+				},
+				options: [
+					{
+						name: 'All Conditions (AND)',
+						value: 'AND',
+					},
+					{
+						name: 'Any Condition (OR)',
+						value: 'OR',
+					},
+				],
+				default: 'AND',
+				description: 'How to combine the filter conditions',
+			},
+			{
+				displayName: 'Options',
+				name: 'vectorOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['vectorSearch'],
+						vectorOperation: ['hybridSearch', 'searchCosine', 'searchInnerProduct', 'searchL2'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Exclude Attributes',
+						name: 'excludeAttributes',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. vector',
+						description: 'Comma-separated list of top-level attributes to leave out of the results',
+					},
+					{
+						displayName: 'Include Attributes',
+						name: 'includeAttributes',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. _key, text, metadata',
+						description:
+							'Comma-separated list of top-level attributes to return. Leave empty to return all attributes.',
+					},
+					{
+						displayName: 'Max Distance',
+						name: 'maxDistance',
+						type: 'number',
+						displayOptions: {
+							show: {
+								'/vectorOperation': ['searchL2'],
+							},
+						},
+						default: 1,
+						description: 'Only return documents whose distance is at most this value',
+					},
+					{
+						displayName: 'Min Similarity',
+						name: 'minSimilarity',
+						type: 'number',
+						displayOptions: {
+							show: {
+								'/vectorOperation': ['searchCosine', 'searchInnerProduct'],
+							},
+						},
+						default: 0.5,
+						description: 'Only return documents whose similarity is at least this value',
+					},
+				],
+			},
+
+			// Search Operations
+			{
+				displayName: 'Search Operation',
+				name: 'searchOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+					},
+				},
+				options: [
+					{
+						name: 'Create View',
+						value: 'createView',
+						description: 'Create an ArangoSearch or search-alias view',
+					},
+					{
+						name: 'Drop View',
+						value: 'dropView',
+						description: 'Drop a view',
+					},
+					{
+						name: 'List Views',
+						value: 'listViews',
+						description: 'List the views of the database',
+					},
+					{
+						name: 'Search',
+						value: 'search',
+						description: 'Run a full-text search against a view',
+					},
+					{
+						name: 'Update View',
+						value: 'updateView',
+						description: 'Update the links, indexes or properties of a view',
+					},
+				],
+				default: 'search',
+				noDataExpression: true,
+			},
+			{
+				displayName: 'View',
+				name: 'viewName',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['createView', 'dropView', 'search', 'updateView'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchViews',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. articles_view',
+					},
+				],
+				required: true,
+				description: 'The name of the view',
+			},
+			{
+				displayName: 'View Type',
+				name: 'viewType',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['createView', 'updateView'],
+					},
+				},
+				options: [
+					{
+						name: 'ArangoSearch',
+						value: 'arangosearch',
+						description: 'A view that links collections and indexes their fields with analyzers',
+					},
+					{
+						name: 'Search Alias',
+						value: 'search-alias',
+						description: 'A view that combines inverted indexes of collections',
+					},
+				],
+				default: 'arangosearch',
+				description: 'The type of the view',
+			},
+			{
+				displayName: 'Links',
+				name: 'viewLinks',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['createView', 'updateView'],
+						viewType: ['arangosearch'],
+					},
+				},
+				default:
+					'{"articles": {"analyzers": ["text_en"], "includeAllFields": false, "fields": {"body": {"features": ["frequency", "norm", "position", "offset"]}}}}',
+				description: 'The link definitions of the view as JSON, keyed by collection name',
+			},
+			{
+				displayName: 'Indexes',
+				name: 'viewIndexes',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['createView', 'updateView'],
+						viewType: ['search-alias'],
+					},
+				},
+				default: '[{"collection": "articles", "index": "inv_body"}]',
+				description: 'The inverted indexes of the view as a JSON array',
+			},
+			{
+				displayName: 'Additional Properties',
+				name: 'viewProperties',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['createView', 'updateView'],
+						viewType: ['arangosearch'],
+					},
+				},
+				default: '{}',
+				description:
+					'Other view properties as JSON, such as primarySort, storedValues or consolidationIntervalMsec',
+			},
+			{
+				displayName: 'Update Mode',
+				name: 'viewUpdateMode',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['updateView'],
+					},
+				},
+				options: [
+					{
+						name: 'Merge',
+						value: 'update',
+						description: 'Merge the given links or indexes into the existing ones',
+					},
+					{
+						name: 'Replace',
+						value: 'replace',
+						description: 'Replace all links or indexes of the view',
+					},
+				],
+				default: 'update',
+				description: 'How to apply the new definition to the view',
+			},
+			{
+				displayName: 'Search Text',
+				name: 'searchText',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['search'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'The text to search for',
+			},
+			{
+				displayName: 'Search Field',
+				name: 'searchField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['search'],
+					},
+				},
+				default: 'body',
+				required: true,
+				description: 'The indexed attribute to search, using dots for nested attributes',
+			},
+			{
+				displayName: 'Match Type',
+				name: 'searchMatchType',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['search'],
+					},
+				},
+				options: [
+					{
+						name: 'All Tokens',
+						value: 'allTokens',
+						description: 'Match documents that contain every token of the search text',
+					},
+					{
+						name: 'Any Token',
+						value: 'anyToken',
+						description: 'Match documents that contain at least one token of the search text',
+					},
+					{
+						name: 'Phrase',
+						value: 'phrase',
+						description: 'Match documents that contain the search text as a phrase',
+					},
+					{
+						name: 'Prefix',
+						value: 'prefix',
+						description: 'Match documents with a token that starts with a token of the search text',
+					},
+				],
+				default: 'anyToken',
+				description: 'How the search text is matched against the field',
+			},
+			{
+				displayName: 'Analyzer',
+				name: 'searchAnalyzer',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['search'],
+					},
+				},
+				default: 'text_en',
+				description: 'The analyzer used to tokenize the search text, as configured on the view',
+			},
+			{
+				displayName: 'Scoring',
+				name: 'searchScoring',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['search'],
+					},
+				},
+				options: [
+					{
+						name: 'BM25',
+						value: 'bm25',
+					},
+					{
+						name: 'None',
+						value: 'none',
+					},
+					{
+						name: 'TF-IDF',
+						value: 'tfidf',
+					},
+				],
+				default: 'bm25',
+				description: 'How to score matching documents. Results are sorted by score.',
+			},
+			{
+				displayName: 'Limit',
+				name: 'searchLimit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['search'],
+					},
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Options',
+				name: 'searchOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['search'],
+						searchOperation: ['search'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Return Highlights',
+						name: 'highlights',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to return the matched text and its offsets. Requires the "offset" feature on the field\'s analyzer.',
+					},
+					{
+						displayName: 'Sort Attribute',
+						name: 'sortAttribute',
+						type: 'string',
+						default: '',
+						description:
+							'Attribute to sort by instead of the score, using dots for nested attributes',
+					},
+					{
+						displayName: 'Sort Direction',
+						name: 'sortDirection',
+						type: 'options',
+						options: [
+							{
+								name: 'Ascending',
+								value: 'ASC',
+							},
+							{
+								name: 'Descending',
+								value: 'DESC',
+							},
+						],
+						default: 'DESC',
+						description: 'Direction to sort the results in',
+					},
+				],
+			},
+
+			// Graph Operations
+			{
+				displayName: 'Graph Operation',
+				name: 'graphOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+					},
+				},
+				options: [
+					{
+						name: 'Add Edge',
+						value: 'addEdge',
+						description: 'Add an edge to the graph',
+					},
+					{
+						name: 'Add Edge Definition',
+						value: 'addEdgeDefinition',
+						description: 'Add an edge definition to the graph',
+					},
+					{
+						name: 'Add Orphan Vertex Collection',
+						value: 'addOrphanCollection',
+						description: 'Add a vertex collection that is not part of any edge definition',
+					},
+					{
+						name: 'Add Vertex',
+						value: 'addVertex',
+						description: 'Add a vertex to the graph',
+					},
+					{
+						name: 'All Shortest Paths',
+						value: 'allShortestPaths',
+						description: 'Find all shortest paths between two vertices',
+					},
+					{
+						name: 'Create Graph',
+						value: 'createGraph',
+						description: 'Create a new graph',
+					},
+					{
+						name: 'Delete Edge',
+						value: 'deleteEdge',
+						description: 'Delete an edge from the graph',
+					},
+					{
+						name: 'Delete Graph',
+						value: 'deleteGraph',
+						description: 'Delete a graph',
+					},
+					{
+						name: 'Delete Vertex',
+						value: 'deleteVertex',
+						description: 'Delete a vertex from the graph',
+					},
+					{
+						name: 'Export Subgraph',
+						value: 'exportSubgraph',
+						description: 'Export vertices and edges as a GraphML, GEXF, Cytoscape.js or DOT file',
+					},
+					{
+						name: 'Get Edge',
+						value: 'getEdge',
+						description: 'Get an edge of the graph',
+					},
+					{
+						name: 'Get Edges of Vertex',
+						value: 'getVertexEdges',
+						description: 'Get the incoming, outgoing or all edges of a vertex',
+					},
+					{
+						name: 'Get Graph',
+						value: 'getGraph',
+						description: 'Get the edge definitions and vertex collections of a graph',
+					},
+					{
+						name: 'Get Neighbors',
+						value: 'getNeighbors',
+						description: 'Get neighbors of a vertex',
+					},
+					{
+						name: 'Get Vertex',
+						value: 'getVertex',
+						description: 'Get a vertex of the graph',
+					},
+					{
+						name: 'Graph Analytics',
+						value: 'graphAnalytics',
+						description: 'Compute degree centrality, connected components or PageRank of the vertices',
+					},
+					{
+						name: 'Import Graph',
+						value: 'importGraph',
+						description: 'Create vertices and edges from the input items',
+					},
+					{
+						name: 'K Paths',
+						value: 'kPaths',
+						description: 'Find all paths between two vertices within a depth range',
+					},
+					{
+						name: 'K Shortest Paths',
+						value: 'kShortestPaths',
+						description: 'Find the K shortest paths between two vertices, optionally weighted',
+					},
+					{
+						name: 'List Graphs',
+						value: 'listGraphs',
+						description: 'List the graphs of the database',
+					},
+					{
+						name: 'Remove Edge Definition',
+						value: 'removeEdgeDefinition',
+						description: 'Remove an edge definition from the graph',
+					},
+					{
+						name: 'Remove Orphan Vertex Collection',
+						value: 'removeOrphanCollection',
+						description: 'Remove an orphan vertex collection from the graph',
+					},
+					{
+						name: 'Replace Edge',
+						value: 'replaceEdge',
+						description: 'Replace an edge of the graph',
+					},
+					{
+						name: 'Replace Edge Definition',
+						value: 'replaceEdgeDefinition',
+						description: 'Replace the from and to collections of an edge definition',
+					},
+					{
+						name: 'Replace Vertex',
+						value: 'replaceVertex',
+						description: 'Replace a vertex of the graph',
+					},
+					{
+						name: 'Shortest Path',
+						value: 'shortestPath',
+						description: 'Find the shortest path between two vertices, optionally weighted',
+					},
+					{
+						name: 'Traverse',
+						value: 'traverse',
+						description: 'Traverse the graph',
+					},
+					{
+						name: 'Update Edge',
+						value: 'updateEdge',
+						description: 'Update an edge of the graph',
+					},
+					{
+						name: 'Update Vertex',
+						value: 'updateVertex',
+						description: 'Update a vertex of the graph',
+					},
+				],
+				default: 'traverse',
+				noDataExpression: true,
+			},
+
+			// Custom Operations
+			{
+				displayName: 'Custom Operation',
+				name: 'customOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+					},
+				},
+				options: [
+					{
+						name: 'Abort Transaction',
+						value: 'abortTransaction',
+						description: 'Abort a stream transaction and discard its changes',
+					},
+					{
+						name: 'Begin Transaction',
+						value: 'beginTransaction',
+						description: 'Begin a stream transaction and return its ID',
+					},
+					{
+						name: 'Clear Slow Query Log',
+						value: 'clearSlowQueries',
+						description: 'Clear the list of slow queries of the database',
+					},
+					{
+						name: 'Commit Transaction',
+						value: 'commitTransaction',
+						description: 'Commit a stream transaction',
+					},
+					{
+						name: 'Execute AQL',
+						value: 'executeAql',
+						description: 'Execute a custom AQL query',
+					},
+					{
+						name: 'Explain AQL',
+						value: 'explainAql',
+						description:
+							'Get the execution plan of an AQL query with its estimated cost, used indexes and optimizer rules',
+					},
+					{
+						name: 'Get Slow Query Log',
+						value: 'listSlowQueries',
+						description: 'List the slow queries of the database',
+					},
+					{
+						name: 'Kill Query',
+						value: 'killQuery',
+						description: 'Kill a running query by its ID',
+					},
+					{
+						name: 'List Running Queries',
+						value: 'listRunningQueries',
+						description: 'List the queries currently running in the database',
+					},
+					{
+						name: 'Profile AQL',
+						value: 'profileAql',
+						description: 'Execute an AQL query with profiling and return the runtime of each execution step',
+					},
+					{
+						name: 'Run Transaction',
+						value: 'runTransaction',
+						description: 'Run a custom transaction',
+					},
+					{
+						name: 'Validate AQL',
+						value: 'parseAql',
+						description: 'Check the syntax of an AQL query and list its bind parameters and collections',
+					},
+				],
+				default: 'executeAql',
+				noDataExpression: true,
+			},
+			{
+				displayName: 'AQL Query',
+				name: 'customAqlQuery',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['executeAql', 'explainAql', 'parseAql', 'profileAql'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'The custom AQL query to execute',
+				typeOptions: {
+					rows: 10,
+				},
+			},
+			{
+				displayName: 'Bind Variables',
+				name: 'bindVariables',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['executeAql', 'explainAql', 'profileAql', 'runTransaction'],
+					},
+				},
+				default: '{}',
+				description: 'Variables to bind to the query or transaction',
+			},
+			{
+				displayName: 'Transaction Collections',
+				name: 'transactionCollections',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['beginTransaction', 'runTransaction'],
+					},
+				},
+				default: '{"read": [], "write": [], "exclusive": []}',
+				required: true,
+				description: 'Collections involved in the transaction',
+			},
+			{
+				displayName: 'Transaction Action',
+				name: 'transactionAction',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['runTransaction'],
+					},
+				},
+				default: 'function (params) { const db = require(\'@arangodb\').db; return db._query(`RETURN { message: \'Hello from transaction\', params: ${JSON.stringify(params)} }`).toArray(); }',
+				required: true,
+				description: 'The transaction action code (JavaScript function as string)',
+				typeOptions: {
+					rows: 10,
+				},
+			},
+			{
+				displayName: 'Transaction Options',
+				name: 'transactionOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['beginTransaction'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Allow Implicit',
+						name: 'allowImplicit',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether the transaction may read from collections that were not declared for it',
+					},
+					{
+						displayName: 'Lock Timeout',
+						name: 'lockTimeout',
+						type: 'number',
+						default: 0,
+						description:
+							'Time in seconds to wait for the collection locks, 0 waits for the server default',
+					},
+					{
+						displayName: 'Max Transaction Size',
+						name: 'maxTransactionSize',
+						type: 'number',
+						default: 0,
+						description: 'Maximum size of the transaction in bytes, 0 uses the server default',
+					},
+					{
+						displayName: 'Wait For Sync',
+						name: 'waitForSync',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to wait until the changes are synced to disk on commit',
+					},
+				],
+			},
+			{
+				displayName: 'Transaction ID',
+				name: 'transactionId',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['abortTransaction', 'commitTransaction'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'The ID of the stream transaction, as returned by Begin Transaction',
+			},
+			{
+				displayName: 'Transaction ID',
+				name: 'transactionId',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['executeAql', 'profileAql'],
+					},
+				},
+				default: '',
+				description:
+					'The ID of a stream transaction to run the query in. Leave empty to run it outside a transaction.',
+			},
+			{
+				displayName: 'Transaction ID',
+				name: 'transactionId',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['document', 'graph'],
+					},
+				},
+				default: '',
+				description:
+					'The ID of a stream transaction to run the operation in. Leave empty to run it outside a transaction.',
+			},
+			{
+				displayName: 'Return Count',
+				name: 'returnCount',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['executeAql'],
+					},
+				},
+				default: false,
+				description: 'Whether to return the count of results',
+			},
+			{
+				displayName: 'Batch Size',
+				name: 'batchSize',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['executeAql'],
+					},
+				},
+				default: 1000,
+				description: 'Number of results to return in each batch',
+			},
+			{
+				displayName: 'Cursor Options',
+				name: 'cursorOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['executeAql'],
+					},
+				},
+				default: {},
+				options: [
+					cursorOptionFields.maxRows,
+					{
+						...cursorOptionFields.outputMode,
+						description: 'How to output the rows. Defaults to a single item when Return Count is on.',
+					},
+					cursorOptionFields.stream,
+					cursorOptionFields.ttl,
+				],
+			},
+			{
+				displayName: 'Query ID',
+				name: 'queryId',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['killQuery'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'The ID of the running query to kill, as returned by List Running Queries',
+			},
+			{
+				displayName: 'Options',
+				name: 'queryOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['executeAql'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Max Runtime',
+						name: 'maxRuntime',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: 'Seconds after which the server kills the query. 0 means no limit.',
+					},
+					{
+						displayName: 'Memory Limit',
+						name: 'memoryLimit',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: 'Maximum memory in bytes the query may use. 0 means the server default.',
+					},
+					{
+						displayName: 'Query Tag',
+						name: 'queryTag',
+						type: 'string',
+						default: '=n8n execution {{ $execution.id }}',
+						description:
+							'Comment to prepend to the query, so that it can be traced back to this execution in the running and slow query lists. Without this option the execution ID is used, leave it empty to send no tag.',
+					},
+					{
+						displayName: 'Timeout',
+						name: 'timeout',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description:
+							'Milliseconds to wait for a response before giving up. The query keeps running on the server unless Max Runtime is set too.',
+					},
+				],
+			},
+			{
+				displayName: 'Options',
+				name: 'explainOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['explainAql'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'All Plans',
+						name: 'allPlans',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to return every plan the optimizer considered, one item per plan, instead of only the chosen one',
+					},
+					{
+						displayName: 'Max Number of Plans',
+						name: 'maxNumberOfPlans',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 10,
+						description: 'Maximum number of plans the optimizer creates',
+					},
+					{
+						displayName: 'Optimizer Rules',
+						name: 'optimizerRules',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. -all,+use-indexes',
+						description:
+							'Comma-separated optimizer rules to enable (+name) or disable (-name) for the plan',
+					},
+				],
+			},
+			{
+				displayName: 'Include Results',
+				name: 'includeResults',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['profileAql'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to return the query results along with the profile. The query is executed either way, including any changes it makes.',
+			},
+			{
+				displayName: 'Include AST',
+				name: 'includeAst',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['custom'],
+						customOperation: ['parseAql'],
+					},
+				},
+				default: false,
+				description: 'Whether to return the abstract syntax tree of a valid query',
+			},
+			
+			// Collection Operations
+			{
+				displayName: 'Operation',
+				name: 'collectionOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+					},
+				},
+				options: [
+					{
+						name: 'Count',
+						value: 'count',
+						description: 'Count the documents in a collection',
+					},
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new collection',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete a collection',
+					},
+					{
+						name: 'Get Figures',
+						value: 'getFigures',
+						description: 'Get storage figures of a collection',
+					},
+					{
+						name: 'Get Properties',
+						value: 'getProperties',
+						description: 'Get the properties of a collection',
+					},
+					{
+						name: 'List',
+						value: 'list',
+						description: 'List the collections of the database',
+					},
+					{
+						name: 'Rename',
+						value: 'rename',
+						description: 'Rename a collection',
+					},
+					{
+						name: 'Truncate',
+						value: 'truncate',
+						description: 'Remove all documents from a collection',
+					},
+					{
+						name: 'Update Properties',
+						value: 'updateProperties',
+						description: 'Change the properties of a collection',
+					},
+				],
+				default: 'create',
+				noDataExpression: true,
+			},
+			{
+				displayName: 'Collection Name',
+				name: 'collectionName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+					},
+					hide: {
+						collectionOperation: ['list'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'The name of the collection',
+			},
+			{
+				displayName: 'New Collection Name',
+				name: 'newCollectionName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+						collectionOperation: ['rename'],
+					},
+				},
+				default: '',
+				required: true,
+			},
+			{
+				displayName: 'Exclude System Collections',
+				name: 'excludeSystem',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+						collectionOperation: ['list'],
+					},
+				},
+				default: true,
+				description: 'Whether to leave out system collections, whose names start with an underscore',
+			},
+			{
+				displayName: 'Options',
+				name: 'collectionCreateOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+						collectionOperation: ['create'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Allow User Keys',
+						name: 'allowUserKeys',
+						type: 'boolean',
+						default: true,
+						description: 'Whether documents may be created with their own _key',
+					},
+					{
+						displayName: 'Ignore If Exists',
+						name: 'ignoreIfExists',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to return the existing collection instead of failing when a collection with the name already exists',
+					},
+					{
+						displayName: 'Key Generator',
+						name: 'keyGenerator',
+						type: 'options',
+						options: [
+							{
+								name: 'Autoincrement',
+								value: 'autoincrement',
+								description: 'Increasing numeric keys, single server only',
+							},
+							{
+								name: 'Padded',
+								value: 'padded',
+								description: 'Increasing keys of fixed length that sort lexicographically',
+							},
+							{
+								name: 'Traditional',
+								value: 'traditional',
+								description: 'Increasing numeric keys',
+							},
+							{
+								name: 'UUID',
+								value: 'uuid',
+								description: 'Random UUID keys',
+							},
+						],
+						default: 'traditional',
+					},
+					{
+						displayName: 'Number of Shards',
+						name: 'numberOfShards',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description: 'Number of shards of the collection, cluster only',
+					},
+					{
+						displayName: 'Replication Factor',
+						name: 'replicationFactor',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description: 'Number of copies kept of each shard, cluster only',
+					},
+					{
+						displayName: 'Schema Level',
+						name: 'schemaLevel',
+						type: 'options',
+						options: [
+							{
+								name: 'Moderate',
+								value: 'moderate',
+								description: 'Validate new documents, and changed documents that were valid before',
+							},
+							{
+								name: 'New',
+								value: 'new',
+								description: 'Validate new documents only',
+							},
+							{
+								name: 'None',
+								value: 'none',
+								description: 'Do not validate documents',
+							},
+							{
+								name: 'Strict',
+								value: 'strict',
+								description: 'Validate all new and changed documents',
+							},
+						],
+						default: 'strict',
+						description: 'Which document writes the schema rule is applied to',
+					},
+					{
+						displayName: 'Schema Message',
+						name: 'schemaMessage',
+						type: 'string',
+						default: '',
+						description: 'Error message returned when a document does not match the schema rule',
+					},
+					{
+						displayName: 'Schema Rule',
+						name: 'schemaRule',
+						type: 'json',
+						default: '{}',
+						description: 'JSON Schema that documents must match. Leave empty for no validation.',
+					},
+					{
+						displayName: 'Type',
+						name: 'collectionType',
+						type: 'options',
+						options: [
+							{
+								name: 'Document',
+								value: 'document',
+							},
+							{
+								name: 'Edge',
+								value: 'edge',
+							},
+						],
+						default: 'document',
+						description: 'Whether the collection stores documents or edges',
+					},
+					{
+						displayName: 'Wait for Sync',
+						name: 'waitForSync',
+						type: 'boolean',
+						default: false,
+						description: 'Whether writes return only after the data was synced to disk',
+					},
+				],
+			},
+			{
+				displayName: 'Options',
+				name: 'collectionDeleteOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+						collectionOperation: ['delete'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Ignore If Missing',
+						name: 'ignoreIfMissing',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to succeed instead of failing when the collection does not exist',
+					},
+				],
+			},
+			{
+				displayName: 'Properties',
+				name: 'collectionProperties',
+				type: 'collection',
+				placeholder: 'Add Property',
+				displayOptions: {
+					show: {
+						resource: ['collection'],
+						collectionOperation: ['updateProperties'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Cache Enabled',
+						name: 'cacheEnabled',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to use the in-memory cache for documents',
+					},
+					{
+						displayName: 'Replication Factor',
+						name: 'replicationFactor',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description: 'Number of copies kept of each shard, cluster only',
+					},
+					{
+						displayName: 'Schema Level',
+						name: 'schemaLevel',
+						type: 'options',
+						options: [
+							{
+								name: 'Moderate',
+								value: 'moderate',
+								description: 'Validate new documents, and changed documents that were valid before',
+							},
+							{
+								name: 'New',
+								value: 'new',
+								description: 'Validate new documents only',
+							},
+							{
+								name: 'None',
+								value: 'none',
+								description: 'Do not validate documents',
+							},
+							{
+								name: 'Strict',
+								value: 'strict',
+								description: 'Validate all new and changed documents',
+							},
+						],
+						default: 'strict',
+						description: 'Which document writes the schema rule is applied to',
+					},
+					{
+						displayName: 'Schema Message',
+						name: 'schemaMessage',
+						type: 'string',
+						default: '',
+						description: 'Error message returned when a document does not match the schema rule',
+					},
+					{
+						displayName: 'Schema Rule',
+						name: 'schemaRule',
+						type: 'json',
+						default: '{}',
+						description: 'JSON Schema that documents must match. Leave empty for no validation.',
+					},
+					{
+						displayName: 'Wait for Sync',
+						name: 'waitForSync',
+						type: 'boolean',
+						default: false,
+						description: 'Whether writes return only after the data was synced to disk',
+					},
+				],
+			},
+
+			// Index Operations
+			{
+				displayName: 'Operation',
+				name: 'indexOperation',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create an index, or return it if an identical index already exists',
+					},
+					{
+						name: 'Drop',
+						value: 'drop',
+						description: 'Drop an index',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get an index by name or ID',
+					},
+					{
+						name: 'List',
+						value: 'list',
+						description: 'List the indexes of a collection',
+					},
+				],
+				default: 'list',
+				noDataExpression: true,
+			},
+			{
+				displayName: 'Collection',
+				name: 'indexCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. users',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. 12345',
+					},
+				],
+				required: true,
+				description: 'The collection the index belongs to',
+			},
+			{
+				displayName: 'Index',
+				name: 'indexSelector',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['drop', 'get'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. idx_email or users/12345',
+				required: true,
+				description: 'The name or ID of the index',
+			},
+			{
+				displayName: 'Index Type',
+				name: 'indexType',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['create'],
+					},
+				},
+				options: [
+					{
+						name: 'Fulltext',
+						value: 'fulltext',
+					},
+					{
+						name: 'Geo',
+						value: 'geo',
+					},
+					{
+						name: 'Inverted',
+						value: 'inverted',
+					},
+					{
+						name: 'Persistent',
+						value: 'persistent',
+					},
+					{
+						name: 'TTL',
+						value: 'ttl',
+					},
+					{
+						name: 'Vector',
+						value: 'vector',
+					},
+				],
+				default: 'persistent',
+				description: 'The type of index to create',
+			},
+			{
+				displayName: 'Fields',
+				name: 'indexFields',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['create'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. email, tenant',
+				required: true,
+				description: 'Comma-separated list of attribute paths to index',
+			},
+			{
+				displayName: 'Index Name',
+				name: 'indexName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['create'],
+					},
+				},
+				default: '',
+				description: 'A unique name for the index. Leave empty to let ArangoDB generate one.',
+			},
+			{
+				displayName: 'Expire After',
+				name: 'expireAfter',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['create'],
+						indexType: ['ttl'],
+					},
+				},
+				default: 3600,
+				description:
+					'Number of seconds after the date stored in the indexed field at which documents expire',
+			},
+			{
+				displayName: 'Dimension',
+				name: 'vectorDimension',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['create'],
+						indexType: ['vector'],
+					},
+				},
+				default: 1536,
+				description: 'The number of elements of the indexed vectors',
+			},
+			{
+				displayName: 'Metric',
+				name: 'vectorMetric',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['create'],
+						indexType: ['vector'],
+					},
+				},
+				options: [
+					{
+						name: 'Cosine',
+						value: 'cosine',
+					},
+					{
+						name: 'Inner Product',
+						value: 'innerProduct',
+					},
+					{
+						name: 'L2',
+						value: 'l2',
+					},
+				],
+				default: 'cosine',
+				description: 'The similarity metric of the vector index',
+			},
+			{
+				displayName: 'Number of Lists',
+				name: 'vectorNLists',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['create'],
+						indexType: ['vector'],
+					},
+				},
+				default: 100,
+				description: 'The number of centroids (inverted lists) the vectors are clustered into',
+			},
+			{
+				displayName: 'Options',
+				name: 'indexOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['index'],
+						indexOperation: ['create'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Analyzer',
+						name: 'analyzer',
+						type: 'string',
+						displayOptions: {
+							show: {
+								'/indexType': ['inverted'],
+							},
+						},
+						default: 'identity',
+						description: 'The analyzer to apply to the indexed fields',
+					},
+					{
+						displayName: 'Cache Enabled',
+						name: 'cacheEnabled',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								'/indexType': ['persistent'],
+							},
+						},
+						default: false,
+						description: 'Whether to keep an in-memory cache for index values',
+					},
+					{
+						displayName: 'Deduplicate',
+						name: 'deduplicate',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								'/indexType': ['persistent'],
+							},
+						},
+						default: true,
+						description: 'Whether to index duplicate array values only once',
+					},
+					{
+						displayName: 'Default N Probe',
+						name: 'defaultNProbe',
+						type: 'number',
+						displayOptions: {
+							show: {
+								'/indexType': ['vector'],
+							},
+						},
+						default: 1,
+						description: 'Number of neighbouring centroids to search by default',
+					},
+					{
+						displayName: 'GeoJSON',
+						name: 'geoJson',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								'/indexType': ['geo'],
+							},
+						},
+						default: false,
+						description:
+							'Whether a single field holds a [longitude, latitude] GeoJSON pair instead of [latitude, longitude]',
+					},
+					{
+						displayName: 'In Background',
+						name: 'inBackground',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to build the index without holding an exclusive lock on the collection',
+					},
+					{
+						displayName: 'Min Length',
+						name: 'minLength',
+						type: 'number',
+						displayOptions: {
+							show: {
+								'/indexType': ['fulltext'],
+							},
+						},
+						default: 2,
+						description: 'Minimum length of words to index',
+					},
+					{
+						displayName: 'Sparse',
+						name: 'sparse',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								'/indexType': ['persistent'],
+							},
+						},
+						default: false,
+						description: 'Whether to exclude documents where an indexed attribute is null or missing',
+					},
+					{
+						displayName: 'Stored Values',
+						name: 'storedValues',
+						type: 'string',
+						displayOptions: {
+							show: {
+								'/indexType': ['vector'],
+							},
+						},
+						default: '',
+						placeholder: 'e.g. tenant, category',
+						description:
+							'Comma-separated list of attribute paths to store in the index. Vector searches that filter only on these attributes can still use the index (ArangoDB 3.12.4 and later).',
+					},
+					{
+						displayName: 'Training Iterations',
+						name: 'trainingIterations',
+						type: 'number',
+						displayOptions: {
+							show: {
+								'/indexType': ['vector'],
+							},
+						},
+						default: 25,
+						description: 'Number of iterations used to train the centroids',
+					},
+					{
+						displayName: 'Unique',
+						name: 'unique',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								'/indexType': ['persistent'],
+							},
+						},
+						default: false,
+						description: 'Whether to reject documents with duplicate values for the indexed fields',
+					},
+				],
+			},
+
+			{
+				displayName: 'Filter',
+				name: 'filter',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['document'],
+						documentOperation: ['getMany'],
+					},
+				},
+				default: '{}',
+				description:
+					'Optional equality filter as JSON, matching attributes to values. Combined with the filter conditions using AND.',
+			},
+
+			{
+				displayName: 'Graph Name',
+				name: 'graphName',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+					},
+					hide: {
+						graphOperation: ['listGraphs'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchGraphs',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. social',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. _graphs/social',
+					},
+				],
+				required: true,
+				description: 'The name of the graph',
+			},
+			{
+				displayName: 'Edge Collection',
+				name: 'definitionCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['addEdgeDefinition'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchEdgeCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. follows',
+					},
+				],
+				required: true,
+				description: 'The edge collection of the edge definition',
+			},
+			{
+				displayName: 'Edge Collection',
+				name: 'definitionCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['removeEdgeDefinition', 'replaceEdgeDefinition'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchGraphEdgeCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. follows',
+					},
+				],
+				required: true,
+				description: 'The edge collection of the edge definition',
+			},
+			{
+				displayName: 'From Collections',
+				name: 'fromCollections',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['addEdgeDefinition', 'replaceEdgeDefinition'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. users',
+				required: true,
+				description: 'Comma-separated list of vertex collections the edges start from',
+			},
+			{
+				displayName: 'To Collections',
+				name: 'toCollections',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['addEdgeDefinition', 'replaceEdgeDefinition'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. users, groups',
+				required: true,
+				description: 'Comma-separated list of vertex collections the edges point to',
+			},
+			{
+				displayName: 'Vertex Collection',
+				name: 'orphanCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['addOrphanCollection'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchDocumentCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. tags',
+					},
+				],
+				required: true,
+				description: 'The vertex collection to add to the graph',
+			},
+			{
+				displayName: 'Vertex Collection',
+				name: 'orphanCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['removeOrphanCollection'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchGraphVertexCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. tags',
+					},
+				],
+				required: true,
+				description: 'The vertex collection to remove from the graph',
+			},
+			{
+				displayName: 'Drop Collection',
+				name: 'dropCollection',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['removeEdgeDefinition', 'removeOrphanCollection'],
+					},
+				},
+				default: false,
+				description: 'Whether to also drop the collection if no other graph uses it',
+			},
+			{
+				displayName: 'Drop Collections',
+				name: 'dropCollections',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['deleteGraph'],
+					},
+				},
+				default: false,
+				description: 'Whether to also drop the collections of the graph that no other graph uses',
+			},
+			{
+				displayName: 'Vertex Collections',
+				name: 'vertexCollections',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['createGraph'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Comma-separated list of vertex collections',
+			},
+			{
+				displayName: 'Edge Definitions',
+				name: 'edgeDefinitions',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['createGraph'],
+						'@version': [1],
+					},
+				},
+				default: '[{"collection": "edges", "from": ["vertices"], "to": ["vertices"]}]',
+				required: true,
+				description: 'Edge definitions as JSON array',
+			},
+			{
+				displayName: 'Edge Definitions',
+				name: 'graphEdgeDefinitions',
+				type: 'fixedCollection',
+				placeholder: 'Add Edge Definition',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['createGraph'],
+						'@version': [{ _cnd: { gte: 1.1 } }],
+					},
+				},
+				default: {},
+				description: 'The edge collections of the graph and the vertex collections they connect',
+				options: [
+					{
+						displayName: 'Edge Definition',
+						name: 'definitions',
+						values: [
+							{
+								displayName: 'Edge Collection',
+								name: 'definitionCollection',
+								type: 'resourceLocator',
+								default: { mode: 'list', value: '' },
+								modes: [
+									{
+										displayName: 'From List',
+										name: 'list',
+										type: 'list',
+										typeOptions: {
+											searchListMethod: 'searchEdgeCollections',
+											searchable: true,
+										},
+									},
+									{
+										displayName: 'By Name',
+										name: 'name',
+										type: 'string',
+										placeholder: 'e.g. follows',
+									},
+								],
+								description: 'The edge collection of the edge definition',
+							},
+							{
+								displayName: 'From Collections',
+								name: 'fromCollections',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. users',
+								description: 'Comma-separated list of vertex collections the edges start from',
+							},
+							{
+								displayName: 'To Collections',
+								name: 'toCollections',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. users, groups',
+								description: 'Comma-separated list of vertex collections the edges point to',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Vertex Data',
+				name: 'vertexData',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['addVertex', 'replaceVertex', 'updateVertex'],
+					},
+				},
+				default: '{}',
+				required: true,
+				description: 'The vertex data as JSON',
+			},
+			{
+				displayName: 'Vertex Collection',
+				name: 'vertexCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['addVertex', 'deleteVertex', 'getVertex', 'replaceVertex', 'updateVertex'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchGraphVertexCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. users',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. 12345',
+					},
+				],
+				required: true,
+				description: 'The vertex collection of the graph',
+			},
+			{
+				displayName: 'Edge Data',
+				name: 'edgeData',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['addEdge', 'replaceEdge', 'updateEdge'],
+					},
+				},
+				default: '{"_from": "collection/key", "_to": "collection/key"}',
+				required: true,
+				description: 'The edge data as JSON (must include _from and _to)',
+			},
+			{
+				displayName: 'Edge Collection',
+				name: 'edgeCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: [
+							'addEdge',
+							'deleteEdge',
+							'getEdge',
+							'importGraph',
+							'replaceEdge',
+							'updateEdge',
+						],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchGraphEdgeCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. follows',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. 12345',
+					},
+				],
+				description: 'The edge collection of the graph',
+			},
+			{
+				displayName: 'Source Vertex Key',
+				name: 'importSourceKey',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['importGraph'],
+					},
+				},
+				default: '={{ $json.from }}',
+				required: true,
+				description: 'The key of the vertex the edge starts at, usually mapped from a field of the input item',
+			},
+			{
+				displayName: 'Source Vertex Collection',
+				name: 'importSourceCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['importGraph'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchGraphVertexCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. users',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. 12345',
+					},
+				],
+				required: true,
+				description: 'The vertex collection of the source vertex',
+			},
+			{
+				displayName: 'Target Vertex Key',
+				name: 'importTargetKey',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['importGraph'],
+					},
+				},
+				default: '={{ $json.to }}',
+				required: true,
+				description: 'The key of the vertex the edge points to, usually mapped from a field of the input item',
+			},
+			{
+				displayName: 'Target Vertex Collection',
+				name: 'importTargetCollection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['importGraph'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchGraphVertexCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. users',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. 12345',
+					},
+				],
 				required: true,
-				description: 'Edge definitions as JSON array',
+				description: 'The vertex collection of the target vertex',
+			},
+			{
+				displayName: 'Edge Attributes',
+				name: 'importEdgeData',
+				type: 'json',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['importGraph'],
+					},
+				},
+				default: '={{ { "relationship": $json.relationship } }}',
+				description: 'Attributes to store on the edge as JSON, usually mapped from fields of the input item',
+			},
+			{
+				displayName: 'Import Options',
+				name: 'importOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['importGraph'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Batch Size',
+						name: 'batchSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1000,
+						description: 'Number of input items to write to ArangoDB in each request',
+					},
+					{
+						displayName: 'Skip Duplicate Edges',
+						name: 'skipDuplicateEdges',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to skip an edge if the edge collection already has an edge between the same source and target vertex',
+					},
+				],
+			},
+			{
+				displayName: 'Export From',
+				name: 'exportSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+					},
+				},
+				options: [
+					{
+						name: 'Traversal',
+						value: 'traversal',
+						description: 'Export the vertices and edges around a start vertex',
+					},
+					{
+						name: 'Whole Graph',
+						value: 'graph',
+						description: 'Export all vertices and edges of the graph, up to a maximum size',
+					},
+				],
+				default: 'traversal',
+			},
+			{
+				displayName: 'Start Vertex',
+				name: 'exportStartVertex',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+						exportSource: ['traversal'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. users/user1',
+				required: true,
+				description: 'The vertex to start the traversal from (format: collection/key)',
+			},
+			{
+				displayName: 'Direction',
+				name: 'exportDirection',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+						exportSource: ['traversal'],
+					},
+				},
+				options: [
+					{
+						name: 'Any',
+						value: 'any',
+					},
+					{
+						name: 'In',
+						value: 'inbound',
+					},
+					{
+						name: 'Out',
+						value: 'outbound',
+					},
+				],
+				default: 'any',
+				description: 'The direction in which to follow edges from the start vertex',
+			},
+			{
+				displayName: 'Depth',
+				name: 'exportDepth',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+						exportSource: ['traversal'],
+					},
+				},
+				default: 2,
+				description: 'Maximum number of edges between the start vertex and an exported vertex',
+			},
+			{
+				displayName: 'Max Vertices',
+				name: 'exportMaxVertices',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+						exportSource: ['graph'],
+					},
+				},
+				default: 10000,
+				description: 'Maximum number of vertices to export',
+			},
+			{
+				displayName: 'Max Edges',
+				name: 'exportMaxEdges',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+						exportSource: ['graph'],
+					},
+				},
+				default: 10000,
+				description: 'Maximum number of edges to export, counting only edges between exported vertices',
+			},
+			{
+				displayName: 'Format',
+				name: 'exportFormat',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+					},
+				},
+				options: [
+					{
+						name: 'Cytoscape.js JSON',
+						value: 'cytoscape',
+					},
+					{
+						name: 'DOT',
+						value: 'dot',
+						description: 'Graphviz DOT language',
+					},
+					{
+						name: 'GEXF',
+						value: 'gexf',
+						description: 'Graph Exchange XML Format, as used by Gephi',
+					},
+					{
+						name: 'GraphML',
+						value: 'graphml',
+					},
+					{
+						name: 'Nodes and Edges JSON',
+						value: 'json',
+						description: 'Return the vertices and edges as JSON instead of a file',
+					},
+				],
+				default: 'graphml',
+			},
+			{
+				displayName: 'Put Output File in Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+					},
+					hide: {
+						exportFormat: ['json'],
+					},
+				},
+				default: 'data',
+				required: true,
+				hint: 'The name of the output binary field to put the file in',
+			},
+			{
+				displayName: 'Export Options',
+				name: 'exportOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'File Name',
+						name: 'fileName',
+						type: 'string',
+						default: '',
+						description: 'Name of the output file. Defaults to the graph name with the extension of the format.',
+					},
+					{
+						displayName: 'Label Attribute',
+						name: 'labelAttribute',
+						type: 'string',
+						default: 'name',
+						description:
+							'Attribute shown as label of vertices and edges in GEXF and DOT files. Vertices without it are labelled with their key.',
+					},
+				],
+			},
+			{
+				displayName: 'Algorithm',
+				name: 'analyticsAlgorithm',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['graphAnalytics'],
+					},
+				},
+				options: [
+					{
+						name: 'Connected Components',
+						value: 'connectedComponents',
+						description:
+							'Group the vertices into weakly connected components. Computed in n8n from all vertex IDs and edges, so the graph must fit into its memory.',
+					},
+					{
+						name: 'Degree Centrality',
+						value: 'degree',
+						description: 'Count the incoming and outgoing edges of each vertex',
+					},
+					{
+						name: 'PageRank',
+						value: 'pageRank',
+						description:
+							'Rank the vertices by the number and rank of the vertices linking to them. Computed in n8n from all vertex IDs and edges, so the graph must fit into its memory.',
+					},
+				],
+				default: 'degree',
+			},
+			{
+				displayName: 'Rank By',
+				name: 'degreeType',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['graphAnalytics'],
+						analyticsAlgorithm: ['degree'],
+					},
+				},
+				options: [
+					{
+						name: 'In-Degree',
+						value: 'inDegree',
+					},
+					{
+						name: 'Out-Degree',
+						value: 'outDegree',
+					},
+					{
+						name: 'Total Degree',
+						value: 'degree',
+					},
+				],
+				default: 'degree',
+				description: 'The degree to sort the vertices by and to write back',
+			},
+			{
+				displayName: 'Damping Factor',
+				name: 'dampingFactor',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+					maxValue: 1,
+					numberPrecision: 2,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['graphAnalytics'],
+						analyticsAlgorithm: ['pageRank'],
+					},
+				},
+				default: 0.85,
+				description: 'Probability of following an edge instead of jumping to a random vertex',
+			},
+			{
+				displayName: 'Max Iterations',
+				name: 'maxIterations',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['graphAnalytics'],
+						analyticsAlgorithm: ['pageRank'],
+					},
+				},
+				default: 100,
+				description: 'Maximum number of iterations. The computation stops earlier once the ranks converge.',
+			},
+			{
+				displayName: 'Write Result To Attribute',
+				name: 'writeAttribute',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['graphAnalytics'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. pageRank',
+				description:
+					'Vertex attribute to store the degree, component or rank of every vertex in. Leave empty to only return the results.',
+			},
+			{
+				displayName: 'Return All',
+				name: 'analyticsReturnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['graphAnalytics'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'analyticsLimit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['graphAnalytics'],
+						analyticsReturnAll: [false],
+					},
+				},
+				default: 10,
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Cursor Options',
+				name: 'cursorOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: [
+							'allShortestPaths',
+							'getNeighbors',
+							'getVertexEdges',
+							'kPaths',
+							'kShortestPaths',
+							'shortestPath',
+							'traverse',
+						],
+					},
+				},
+				default: {},
+				options: [
+					cursorOptionFields.batchSize,
+					cursorOptionFields.maxRows,
+					cursorOptionFields.outputMode,
+					cursorOptionFields.stream,
+					cursorOptionFields.ttl,
+				],
+			},
+			{
+				displayName: 'Cursor Options',
+				name: 'cursorOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['exportSubgraph', 'graphAnalytics'],
+					},
+				},
+				default: {},
+				options: [
+					cursorOptionFields.batchSize,
+					{
+						...cursorOptionFields.maxRows,
+						description:
+							'Maximum number of vertices or edges to read from each query. Export Subgraph stops reading there, Graph Analytics fails instead of analyzing part of the graph. 0 reads all rows.',
+					},
+					cursorOptionFields.stream,
+					cursorOptionFields.ttl,
+				],
 			},
 			{
-				displayName: 'Vertex Data',
-				name: 'vertexData',
-				type: 'json',
+				displayName: 'Vertex Key',
+				name: 'vertexKey',
+				type: 'string',
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['addVertex'],
+						graphOperation: ['getVertex', 'replaceVertex', 'updateVertex'],
 					},
 				},
-				default: '{}',
+				default: '',
 				required: true,
-				description: 'The vertex data as JSON',
+				description: 'The key or ID (format: collection/key) of the vertex',
 			},
 			{
-				displayName: 'Vertex Collection',
-				name: 'vertexCollection',
+				displayName: 'Edge Key',
+				name: 'edgeKey',
 				type: 'string',
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['addVertex', 'deleteVertex'],
+						graphOperation: ['getEdge', 'replaceEdge', 'updateEdge'],
 					},
 				},
-				default: '{"_from": "collection/key", "_to": "collection/key"}',
+				default: '',
 				required: true,
-				description: 'The edge data as JSON (must include _from and _to)',
+				description: 'The key or ID (format: collection/key) of the edge',
 			},
 			{
-				displayName: 'Edge Data',
-				name: 'edgeData',
-				type: 'json',
+				displayName: 'Vertex ID',
+				name: 'vertexId',
+				type: 'string',
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['addEdge'],
+						graphOperation: ['getVertexEdges'],
 					},
 				},
-				default: '{"_from": "collection/key", "_to": "collection/key"}',
+				default: '',
+				placeholder: 'e.g. users/user1',
 				required: true,
-				description: 'The edge data as JSON (must include _from and _to)',
+				description: 'The vertex to get the edges of (format: collection/key)',
 			},
 			{
-				displayName: 'Edge Collection',
-				name: 'edgeCollection',
-				type: 'string',
+				displayName: 'Edge Direction',
+				name: 'edgeDirection',
+				type: 'options',
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['addEdge', 'deleteEdge'],
+						graphOperation: ['getVertexEdges'],
 					},
 				},
-				default: '{ "param1": "value1", "param2": 123 }',
-				description: 'Variables to bind to the query or transaction',
+				options: [
+					{
+						name: 'Any',
+						value: 'any',
+						description: 'Incoming and outgoing edges',
+					},
+					{
+						name: 'In',
+						value: 'inbound',
+						description: 'Edges pointing to the vertex',
+					},
+					{
+						name: 'Out',
+						value: 'outbound',
+						description: 'Edges starting at the vertex',
+					},
+				],
+				default: 'any',
+				description: 'Which edges of the vertex to return',
 			},
 			{
 				displayName: 'Start Vertex',
@@ -629,7 +4435,14 @@ export class ArangoDb implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['traverse', 'shortestPath', 'getNeighbors'],
+						graphOperation: [
+							'allShortestPaths',
+							'getNeighbors',
+							'kPaths',
+							'kShortestPaths',
+							'shortestPath',
+							'traverse',
+						],
 					},
 				},
 				default: '',
@@ -643,7 +4456,7 @@ export class ArangoDb implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['shortestPath'],
+						graphOperation: ['allShortestPaths', 'kPaths', 'kShortestPaths', 'shortestPath'],
 					},
 				},
 				default: '',
@@ -657,7 +4470,42 @@ export class ArangoDb implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['traverse', 'getNeighbors'],
+						graphOperation: [
+							'allShortestPaths',
+							'getNeighbors',
+							'kPaths',
+							'kShortestPaths',
+							'traverse',
+						],
+					},
+				},
+				options: [
+					{
+						name: 'Outbound',
+						value: 'outbound',
+					},
+					{
+						name: 'Inbound',
+						value: 'inbound',
+					},
+					{
+						name: 'Any',
+						value: 'any',
+					},
+				],
+				default: 'outbound',
+				description: 'The direction to traverse',
+			},
+			// Version 1 nodes keep the outbound, unweighted shortest path they were created with
+			{
+				displayName: 'Direction',
+				name: 'direction',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['shortestPath'],
+						'@version': [{ _cnd: { gte: 1.1 } }],
 					},
 				},
 				options: [
@@ -684,7 +4532,7 @@ export class ArangoDb implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['traverse'],
+						graphOperation: ['kPaths', 'traverse'],
 					},
 				},
 				default: 2,
@@ -697,12 +4545,330 @@ export class ArangoDb implements INodeType {
 				displayOptions: {
 					show: {
 						resource: ['graph'],
-						graphOperation: ['traverse'],
+						graphOperation: ['kPaths', 'traverse'],
 					},
 				},
 				default: 1,
 				description: 'Minimum traversal depth',
 			},
+			{
+				displayName: 'Number of Paths',
+				name: 'pathLimit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['kPaths', 'kShortestPaths'],
+					},
+				},
+				default: 5,
+				description: 'Max number of paths to return',
+			},
+			{
+				displayName: 'Weight Attribute',
+				name: 'weightAttribute',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['kShortestPaths'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. distance',
+				description:
+					'The edge attribute holding the weight of each edge. Leave empty to count every edge as 1.',
+			},
+			{
+				displayName: 'Weight Attribute',
+				name: 'weightAttribute',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['shortestPath'],
+						'@version': [{ _cnd: { gte: 1.1 } }],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. distance',
+				description:
+					'The edge attribute holding the weight of each edge. Leave empty to count every edge as 1.',
+			},
+			{
+				displayName: 'Default Weight',
+				name: 'defaultWeight',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['kShortestPaths'],
+					},
+				},
+				default: 1,
+				description: 'The weight of edges that do not have the weight attribute',
+			},
+			{
+				displayName: 'Default Weight',
+				name: 'defaultWeight',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['shortestPath'],
+						'@version': [{ _cnd: { gte: 1.1 } }],
+					},
+				},
+				default: 1,
+				description: 'The weight of edges that do not have the weight attribute',
+			},
+			{
+				displayName: 'Vertex Filters',
+				name: 'vertexFilters',
+				type: 'fixedCollection',
+				placeholder: 'Add Condition',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['traverse'],
+					},
+				},
+				default: {},
+				description: 'Conditions the visited vertices must match to be returned',
+				options: [
+					{
+						displayName: 'Conditions',
+						name: 'conditions',
+						values: filterConditionFields,
+					},
+				],
+			},
+			{
+				displayName: 'Edge Filters',
+				name: 'edgeFilters',
+				type: 'fixedCollection',
+				placeholder: 'Add Condition',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['traverse'],
+					},
+				},
+				default: {},
+				description: 'Conditions the edge leading to a vertex must match for the vertex to be returned',
+				options: [
+					{
+						displayName: 'Conditions',
+						name: 'conditions',
+						values: filterConditionFields,
+					},
+				],
+			},
+			{
+				displayName: 'Combine Filters',
+				name: 'traversalFilterCombinator',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['traverse'],
+					},
+				},
+				options: [
+					{
+						name: 'All Conditions (AND)',
+						value: 'AND',
+					},
+					{
+						name: 'Any Condition (OR)',
+						value: 'OR',
+					},
+				],
+				default: 'AND',
+				description: 'How to combine the conditions of the vertex and edge filters',
+			},
+			{
+				displayName: 'Prune Conditions',
+				name: 'pruneConditions',
+				type: 'fixedCollection',
+				placeholder: 'Add Condition',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['traverse'],
+					},
+				},
+				default: {},
+				description:
+					'Stop following a path beyond a vertex when any of these conditions matches. The matching vertex itself is still visited.',
+				options: [
+					{
+						displayName: 'Conditions',
+						name: 'conditions',
+						values: [
+							{
+								displayName: 'Applies To',
+								name: 'target',
+								type: 'options',
+								options: [
+									{
+										name: 'Vertex',
+										value: 'vertex',
+									},
+									{
+										name: 'Edge',
+										value: 'edge',
+									},
+								],
+								default: 'vertex',
+								description: 'Whether to test the current vertex or the edge leading to it',
+							},
+							...filterConditionFields,
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Output',
+				name: 'traversalOutput',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['traverse'],
+					},
+				},
+				options: [
+					{
+						name: 'Distinct Vertices',
+						value: 'vertices',
+						description: 'One item per distinct visited vertex',
+					},
+					{
+						name: 'Final Paths',
+						value: 'paths',
+						description: 'One item per path that is not extended by another returned path',
+					},
+					{
+						name: 'Vertex, Edge and Path',
+						value: 'full',
+						description: 'One item per visited vertex with the edge and path leading to it',
+					},
+				],
+				default: 'full',
+				description: 'What to return for each step of the traversal',
+			},
+			{
+				displayName: 'Traversal Options',
+				name: 'traversalOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				displayOptions: {
+					show: {
+						resource: ['graph'],
+						graphOperation: ['traverse'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Default Weight',
+						name: 'defaultWeight',
+						type: 'number',
+						default: 1,
+						description: 'The weight of edges that do not have the weight attribute, for weighted order',
+					},
+					{
+						displayName: 'Edge Collections',
+						name: 'edgeCollections',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. supplies, ships_to',
+						description: 'Comma-separated list of edge collections to follow. Leave empty to follow all edge collections of the graph.',
+					},
+					{
+						displayName: 'Order',
+						name: 'order',
+						type: 'options',
+						options: [
+							{
+								name: 'Breadth-First',
+								value: 'bfs',
+							},
+							{
+								name: 'Depth-First',
+								value: 'dfs',
+							},
+							{
+								name: 'Weighted',
+								value: 'weighted',
+							},
+						],
+						default: 'dfs',
+						description: 'The order in which vertices are visited',
+					},
+					{
+						displayName: 'Unique Edges',
+						name: 'uniqueEdges',
+						type: 'options',
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+							},
+							{
+								name: 'Path',
+								value: 'path',
+							},
+						],
+						default: 'path',
+						description: 'Whether an edge may appear more than once on a path',
+					},
+					{
+						displayName: 'Unique Vertices',
+						name: 'uniqueVertices',
+						type: 'options',
+						options: [
+							{
+								name: 'Global',
+								value: 'global',
+								description: 'Visit each vertex at most once. Requires breadth-first or weighted order.',
+							},
+							{
+								name: 'None',
+								value: 'none',
+							},
+							{
+								name: 'Path',
+								value: 'path',
+								description: 'Visit each vertex at most once per path',
+							},
+						],
+						default: 'none',
+						description: 'Whether a vertex may be visited more than once',
+					},
+					{
+						displayName: 'Weight Attribute',
+						name: 'weightAttribute',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. distance',
+						description: 'The edge attribute holding the weight of each edge, for weighted order',
+					},
+				],
+			},
 			{
 				displayName: 'Vertex To Delete Key',
 				name: 'vertexToDeleteKey',
@@ -734,33 +4900,607 @@ export class ArangoDb implements INodeType {
 		],
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
-		const credentials = await this.getCredentials('arangoDbCredentials');
-		
-		const host = credentials.host as string;
-		const port = credentials.port as string;
-		const username = credentials.username as string;
-		const password = credentials.password as string;
-		const database = this.getNodeParameter('database', 0) as string;
-		
-		// Create database connection
-		const db = new Database({
-			url: `${host}:${port}`,
-			auth: { username, password },
-			databaseName: database,
-		});
+	methods = {
+		listSearch: {
+			searchCollections,
+			searchDatabases,
+			searchDocumentCollections,
+			searchEdgeCollections,
+			searchGraphEdgeCollections,
+			searchGraphs,
+			searchGraphVertexCollections,
+			searchViews,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+		// Connections are created per database and stream transaction, as both may differ per item
+		const connections = new Map<string, Database>();
+		const getDb = async (itemIndex: number, transactionId = ''): Promise<Database> => {
+			const database = this.getNodeParameter('database', itemIndex, '', {
+				extractValue: true,
+			}) as string;
+			const connectionKey = JSON.stringify([database, transactionId]);
+			if (!connections.has(connectionKey)) {
+				connections.set(
+					connectionKey,
+					await getArangoDbConnection.call(this, database, transactionId || undefined),
+				);
+			}
+			return connections.get(connectionKey)!;
+		};
+
+		// Query results are read batch by batch, so that Max Rows applies before a large result is in memory
+		const getCursorOptions = (itemIndex: number) => {
+			const cursorOptions = this.getNodeParameter('cursorOptions', itemIndex, {}) as IDataObject;
+			const queryOptions: QueryOptions = {};
+			if (cursorOptions.batchSize) {
+				queryOptions.batchSize = cursorOptions.batchSize as number;
+			}
+			if (cursorOptions.ttl) {
+				queryOptions.ttl = cursorOptions.ttl as number;
+			}
+			if (cursorOptions.stream) {
+				queryOptions.stream = true;
+			}
+			return {
+				queryOptions,
+				maxRows: (cursorOptions.maxRows as number) ?? 0,
+				outputMode: cursorOptions.outputMode as string | undefined,
+			};
+		};
+
+		const resource = this.getNodeParameter('resource', 0) as string;
+
+		// Batched operations collect the output of each item before returning it
+		const results: INodeExecutionData[][] = items.map(() => []);
+		const handleItemError = (error: any, itemIndex: number) => {
+			if (this.continueOnFail()) {
+				results[itemIndex] = [
+					{
+						json: { error: error.message },
+						error,
+						pairedItem: itemIndex,
+					},
+				];
+				return;
+			}
+			throw new NodeOperationError(this.getNode(), error, {
+				itemIndex,
+			});
+		};
+
+		// Bulk document writes group all items into batches instead of one request per item
+		if (resource === 'document') {
+			const operation = this.getNodeParameter('documentOperation', 0) as string;
+			const bulkMode =
+				['create', 'delete', 'update', 'replace'].includes(operation) &&
+				(this.getNodeParameter('bulkMode', 0, false) as boolean);
+
+			if (bulkMode) {
+				const bulkBatchSize = this.getNodeParameter('bulkBatchSize', 0, 1000) as number;
+
+				for (let start = 0; start < items.length; start += bulkBatchSize) {
+					const end = Math.min(start + bulkBatchSize, items.length);
+
+					// Group the batch by connection and collection, as both may differ per item
+					const batches = new Map<
+						string,
+						{
+							db: Database;
+							collection: string;
+							entries: { itemIndex: number; payload: any }[];
+						}
+					>();
+					for (let i = start; i < end; i++) {
+						try {
+							const transactionId = this.getNodeParameter('transactionId', i, '') as string;
+							const database = this.getNodeParameter('database', i, '', {
+								extractValue: true,
+							}) as string;
+							const db = await getDb(i, transactionId);
+							const collection = await getCollectionName(
+								db,
+								this.getNodeParameter('collection', i) as INodeParameterResourceLocator,
+							);
+							let payload: any;
+
+							if (operation === 'delete') {
+								payload = this.getNodeParameter('documentKey', i) as string;
+							} else {
+								const documentData = this.getNodeParameter('documentData', i) as string;
+								payload = JSON.parse(documentData);
+								if (operation !== 'create') {
+									payload._key = this.getNodeParameter('documentKey', i) as string;
+								}
+							}
+
+							const batchKey = JSON.stringify([database, transactionId, collection]);
+							if (!batches.has(batchKey)) {
+								batches.set(batchKey, { db, collection, entries: [] });
+							}
+							batches.get(batchKey)!.entries.push({ itemIndex: i, payload });
+						} catch (error) {
+							handleItemError(error, i);
+						}
+					}
+
+					for (const { db, collection, entries } of batches.values()) {
+						const payloads = entries.map((entry) => entry.payload);
+						const returnNew =
+							operation !== 'delete' &&
+							(this.getNodeParameter('returnNew', entries[0].itemIndex) as boolean);
+
+						let batchResult: any[];
+						try {
+							switch (operation) {
+								case 'create':
+									batchResult = await db.collection(collection).saveAll(payloads, { returnNew });
+									break;
+								case 'update':
+									batchResult = await db
+										.collection(collection)
+										.updateAll(payloads, { returnNew });
+									break;
+								case 'replace':
+									batchResult = await db
+										.collection(collection)
+										.replaceAll(payloads, { returnNew });
+									break;
+								default:
+									batchResult = await db.collection(collection).removeAll(payloads);
+									break;
+							}
+						} catch (error) {
+							// The whole request failed, so every item of the batch failed with it
+							for (const entry of entries) {
+								handleItemError(error, entry.itemIndex);
+							}
+							continue;
+						}
+
+						entries.forEach((entry, index) => {
+							const result = batchResult[index];
+							if (result?.error) {
+								handleItemError(new Error(result.errorMessage), entry.itemIndex);
+								return;
+							}
+							results[entry.itemIndex] = [
+								{
+									json: result,
+									pairedItem: entry.itemIndex,
+								},
+							];
+						});
+					}
+				}
+
+				return [results.flat()];
+			}
+		}
 
-		const resource = this.getNodeParameter('resource', 0) as string;
+		// Graph imports upsert the vertices and create the edges of all items in batches
+		if (resource === 'graph' && this.getNodeParameter('graphOperation', 0) === 'importGraph') {
+			const graphName = getGraphName(
+				this.getNodeParameter('graphName', 0) as INodeParameterResourceLocator,
+			);
+			// A batch spans several items, so all of them must use the database and transaction of the first item
+			const getImportTarget = (itemIndex: number) =>
+				JSON.stringify([
+					this.getNodeParameter('database', itemIndex, '', { extractValue: true }),
+					this.getNodeParameter('transactionId', itemIndex, ''),
+				]);
+			const importTarget = getImportTarget(0);
+			const db = await getDb(0, this.getNodeParameter('transactionId', 0, '') as string);
+			const importOptions = this.getNodeParameter('importOptions', 0, {}) as IDataObject;
+			const batchSize = (importOptions.batchSize as number) ?? 1000;
+			const skipDuplicateEdges = (importOptions.skipDuplicateEdges as boolean) ?? false;
+
+			// Like the graph API, only accept edges between the vertex collections of their edge definition
+			const { edgeDefinitions } = await db.graph(graphName).get();
+			const importedEdges = new Set<string>();
+
+			for (let start = 0; start < items.length; start += batchSize) {
+				const end = Math.min(start + batchSize, items.length);
+				const vertices = new Map<string, Set<string>>();
+				const edges = new Map<string, { itemIndex: number; edge: IDataObject }[]>();
+
+				for (let i = start; i < end; i++) {
+					try {
+						if (getImportTarget(i) !== importTarget) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'The item uses a different database or transaction than the first item',
+								{
+									itemIndex: i,
+									description:
+										'Import Graph writes all items into the database and transaction of the first item. Split the items into separate executions of the node instead.',
+								},
+							);
+						}
+						const sourceCollection = await getCollectionName(
+							db,
+							this.getNodeParameter('importSourceCollection', i) as INodeParameterResourceLocator,
+						);
+						const targetCollection = await getCollectionName(
+							db,
+							this.getNodeParameter('importTargetCollection', i) as INodeParameterResourceLocator,
+						);
+						const edgeCollection = await getCollectionName(
+							db,
+							this.getNodeParameter('edgeCollection', i) as INodeParameterResourceLocator,
+						);
+						const sourceKey = String(this.getNodeParameter('importSourceKey', i) ?? '').trim();
+						const targetKey = String(this.getNodeParameter('importTargetKey', i) ?? '').trim();
+						const edgeData = this.getNodeParameter('importEdgeData', i, '{}') as string | IDataObject;
+
+						if (!sourceKey || !targetKey) {
+							throw new NodeOperationError(
+								this.getNode(),
+								'The source and target vertex keys must not be empty',
+								{ itemIndex: i },
+							);
+						}
+
+						const definition = edgeDefinitions.find(
+							(edgeDefinition) => edgeDefinition.collection === edgeCollection,
+						);
+						if (
+							!definition ||
+							!definition.from.includes(sourceCollection) ||
+							!definition.to.includes(targetCollection)
+						) {
+							throw new NodeOperationError(
+								this.getNode(),
+								`The graph has no edge definition for "${edgeCollection}" from "${sourceCollection}" to "${targetCollection}"`,
+								{ itemIndex: i },
+							);
+						}
+
+						for (const [collection, key] of [
+							[sourceCollection, sourceKey],
+							[targetCollection, targetKey],
+						]) {
+							if (!vertices.has(collection)) {
+								vertices.set(collection, new Set());
+							}
+							vertices.get(collection)!.add(key);
+						}
+
+						const edge: IDataObject = {
+							...(typeof edgeData === 'string' ? JSON.parse(edgeData || '{}') : edgeData),
+							_from: `${sourceCollection}/${sourceKey}`,
+							_to: `${targetCollection}/${targetKey}`,
+						};
+						if (!edges.has(edgeCollection)) {
+							edges.set(edgeCollection, []);
+						}
+						edges.get(edgeCollection)!.push({ itemIndex: i, edge });
+					} catch (error) {
+						handleItemError(error, i);
+					}
+				}
+
+				// Insert missing vertices and keep the ones that already exist untouched
+				const failedVertices = new Map<string, string>();
+				try {
+					for (const [collection, keys] of vertices) {
+						const vertexKeys = [...keys];
+						const batchResult: any[] = await db.collection(collection).saveAll(
+							vertexKeys.map((key) => ({ _key: key })),
+							{ overwriteMode: 'ignore' },
+						);
+						batchResult.forEach((result, index) => {
+							if (result?.error) {
+								failedVertices.set(`${collection}/${vertexKeys[index]}`, result.errorMessage);
+							}
+						});
+					}
+				} catch (error) {
+					for (const entries of edges.values()) {
+						for (const entry of entries) {
+							handleItemError(error, entry.itemIndex);
+						}
+					}
+					continue;
+				}
+
+				for (const [edgeCollection, allEntries] of edges) {
+					// An edge to a vertex that could not be saved would dangle, so its item fails instead
+					const entries = allEntries.filter(({ itemIndex, edge }) => {
+						const failedVertex = [edge._from as string, edge._to as string].find((id) =>
+							failedVertices.has(id),
+						);
+						if (failedVertex) {
+							handleItemError(
+								new Error(
+									`The vertex "${failedVertex}" could not be saved: ${failedVertices.get(failedVertex)}`,
+								),
+								itemIndex,
+							);
+							return false;
+						}
+						return true;
+					});
+
+					try {
+						const duplicates = new Set<string>();
+						if (skipDuplicateEdges && entries.length) {
+							const cursor = await db.query(
+								`FOR pair IN @pairs
+								 FILTER LENGTH(
+								   FOR e IN @@edgeCollection
+								   FILTER e._from == pair[0] AND e._to == pair[1]
+								   LIMIT 1
+								   RETURN 1
+								 ) > 0
+								 RETURN pair`,
+								{
+									'@edgeCollection': edgeCollection,
+									pairs: entries.map(({ edge }) => [edge._from, edge._to]),
+								},
+							);
+							for (const pair of await cursor.all()) {
+								duplicates.add(JSON.stringify([edgeCollection, ...pair]));
+							}
+						}
+
+						// A pair only counts as imported once its edge was saved, so when several items of
+						// the batch share a pair, the next one is tried if the first one fails
+						let pending = entries;
+						while (pending.length) {
+							const saving: typeof entries = [];
+							const deferred: typeof entries = [];
+							const savingPairs = new Set<string>();
+							for (const entry of pending) {
+								const { itemIndex, edge } = entry;
+								const pairKey = JSON.stringify([edgeCollection, edge._from, edge._to]);
+								if (skipDuplicateEdges && (duplicates.has(pairKey) || importedEdges.has(pairKey))) {
+									results[itemIndex] = [
+										{
+											json: { _from: edge._from, _to: edge._to, created: false, edge: null },
+											pairedItem: itemIndex,
+										},
+									];
+								} else if (skipDuplicateEdges && savingPairs.has(pairKey)) {
+									deferred.push(entry);
+								} else {
+									savingPairs.add(pairKey);
+									saving.push(entry);
+								}
+							}
+							if (!saving.length) {
+								break;
+							}
+
+							const batchResult: any[] = await db
+								.collection(edgeCollection)
+								.saveAll(saving.map(({ edge }) => edge), { returnNew: true });
+							saving.forEach(({ itemIndex, edge }, index) => {
+								const result = batchResult[index];
+								if (result?.error) {
+									handleItemError(new Error(result.errorMessage), itemIndex);
+									return;
+								}
+								importedEdges.add(JSON.stringify([edgeCollection, edge._from, edge._to]));
+								results[itemIndex] = [
+									{
+										json: { _from: edge._from, _to: edge._to, created: true, edge: result.new },
+										pairedItem: itemIndex,
+									},
+								];
+							});
+							pending = deferred;
+						}
+					} catch (error) {
+						for (const entry of entries) {
+							if (!results[entry.itemIndex].length) {
+								handleItemError(error, entry.itemIndex);
+							}
+						}
+					}
+				}
+			}
+
+			return [results.flat()];
+		}
 
 		for (let i = 0; i < items.length; i++) {
 			try {
 				let responseData: any;
+				let responseBinary: IBinaryKeyData | undefined;
+
+				let transactionId = '';
+				if (
+					resource === 'document' ||
+					resource === 'graph' ||
+					(resource === 'custom' &&
+						['executeAql', 'profileAql'].includes(this.getNodeParameter('customOperation', i) as string))
+				) {
+					transactionId = this.getNodeParameter('transactionId', i, '') as string;
+				}
+				// Databases and users are managed through the _system database instead of the selected one
+				const db =
+					resource === 'database' || resource === 'user'
+						? await getArangoDbConnection.call(this, '_system')
+						: await getDb(i, transactionId);
+
+				if (resource === 'database') {
+					const operation = this.getNodeParameter('databaseOperation', i) as string;
+
+					switch (operation) {
+						case 'list': {
+							const onlyAccessible = this.getNodeParameter('onlyAccessible', i) as boolean;
+							const databases = onlyAccessible
+								? await db.listUserDatabases()
+								: await db.listDatabases();
+							responseData = databases.map((name) => ({ name }));
+							break;
+						}
+
+						case 'get': {
+							const databaseName = this.getNodeParameter('targetDatabase', i, '', {
+								extractValue: true,
+							}) as string;
+							responseData = await db.database(databaseName).get();
+							break;
+						}
+
+						case 'create': {
+							const databaseName = this.getNodeParameter('databaseName', i) as string;
+							const options = this.getNodeParameter('databaseCreateOptions', i, {}) as IDataObject;
+							const users = this.getNodeParameter('databaseUsers.users', i, []) as IDataObject[];
+							const target = db.database(databaseName);
+
+							if (options.ignoreIfExists && (await target.exists())) {
+								responseData = { ...(await target.get()), alreadyExisted: true };
+								break;
+							}
+
+							const createOptions: CreateDatabaseOptions = {
+								users: users.map((user) => ({
+									username: user.username as string,
+									passwd: user.password as string,
+									active: user.active as boolean,
+								})),
+							};
+							if (options.sharding !== undefined) {
+								createOptions.sharding = options.sharding as '' | 'flexible' | 'single';
+							}
+							if (options.replicationFactor !== undefined) {
+								createOptions.replicationFactor = options.replicationFactor as number;
+							}
+							if (options.writeConcern !== undefined) {
+								createOptions.writeConcern = options.writeConcern as number;
+							}
+
+							const created = await db.createDatabase(databaseName, createOptions);
+							responseData = { ...(await created.get()), alreadyExisted: false };
+							break;
+						}
+
+						case 'delete': {
+							const databaseName = this.getNodeParameter('targetDatabase', i, '', {
+								extractValue: true,
+							}) as string;
+							const options = this.getNodeParameter('databaseDeleteOptions', i, {}) as IDataObject;
+							if (options.ignoreIfMissing && !(await db.database(databaseName).exists())) {
+								responseData = { name: databaseName, dropped: false };
+								break;
+							}
+							await db.dropDatabase(databaseName);
+							responseData = { name: databaseName, dropped: true };
+							break;
+						}
+					}
+				} else if (resource === 'user') {
+					const operation = this.getNodeParameter('userOperation', i) as string;
+					const username =
+						operation === 'list' ? '' : (this.getNodeParameter('username', i) as string);
+					const parseExtra = (extra: unknown) =>
+						typeof extra === 'string' ? JSON.parse(extra || '{}') : extra;
+
+					switch (operation) {
+						case 'list': {
+							responseData = await db.listUsers();
+							break;
+						}
+
+						case 'get': {
+							responseData = await db.getUser(username);
+							break;
+						}
 
-				if (resource === 'document') {
+						case 'create': {
+							const password = this.getNodeParameter('userPassword', i, '') as string;
+							const options = this.getNodeParameter('userCreateOptions', i, {}) as IDataObject;
+							try {
+								const user = await db.createUser(username, {
+									passwd: password,
+									active: (options.active as boolean) ?? true,
+									extra: parseExtra(options.extra ?? '{}'),
+								});
+								responseData = { ...user, alreadyExisted: false };
+							} catch (error) {
+								const ignore =
+									options.ignoreIfExists && isArangoError(error) && error.errorNum === userDuplicateErrorNum;
+								if (!ignore) {
+									throw error;
+								}
+								responseData = { ...(await db.getUser(username)), alreadyExisted: true };
+							}
+							break;
+						}
+
+						case 'update': {
+							const fields = this.getNodeParameter('userUpdateFields', i, {}) as IDataObject;
+							const update: Partial<UserOptions> = {};
+							if (fields.password !== undefined) {
+								update.passwd = fields.password as string;
+							}
+							if (fields.active !== undefined) {
+								update.active = fields.active as boolean;
+							}
+							if (fields.extra !== undefined) {
+								update.extra = parseExtra(fields.extra);
+							}
+							responseData = await db.updateUser(username, update);
+							break;
+						}
+
+						case 'delete': {
+							const options = this.getNodeParameter('userDeleteOptions', i, {}) as IDataObject;
+							try {
+								await db.removeUser(username);
+								responseData = { user: username, deleted: true };
+							} catch (error) {
+								const ignore =
+									options.ignoreIfMissing && isArangoError(error) && error.errorNum === userNotFoundErrorNum;
+								if (!ignore) {
+									throw error;
+								}
+								responseData = { user: username, deleted: false };
+							}
+							break;
+						}
+
+						case 'getAccess':
+						case 'setAccess':
+						case 'clearAccess': {
+							const database = this.getNodeParameter('accessDatabase', i, '', {
+								extractValue: true,
+							}) as string;
+							const collection = (this.getNodeParameter('accessCollection', i, '') as string).trim();
+							const target: UserAccessLevelOptions = collection
+								? { database, collection }
+								: { database };
+
+							if (operation === 'setAccess') {
+								const accessLevel = this.getNodeParameter('accessLevel', i) as AccessLevel;
+								await db.setUserAccessLevel(username, target, accessLevel);
+							} else if (operation === 'clearAccess') {
+								await db.clearUserAccessLevel(username, target);
+							}
+
+							// Report the effective access level after the change, for audit logs
+							responseData = {
+								user: username,
+								database: database,
+								collection: collection || null,
+								operation: operation.replace('Access', ''),
+								accessLevel: await db.getUserAccessLevel(username, target),
+							};
+							break;
+						}
+					}
+				} else if (resource === 'document') {
 					const operation = this.getNodeParameter('documentOperation', i) as string;
-					const collection = this.getNodeParameter('collection', i, '') as string;
+					const collection = await getCollectionName(
+						db,
+						this.getNodeParameter('collection', i, '') as INodeParameterResourceLocator | string,
+					);
 
 					switch (operation) {
 						case 'create': {
@@ -782,41 +5522,75 @@ export class ArangoDb implements INodeType {
 						}
 
 						case 'getMany': {
-							const limit = this.getNodeParameter('limit', i) as number;
-							const filter = this.getNodeParameter('filter', i) as string;
-							const filterData = JSON.parse(filter);
-						
-							let query;
-							const bindVars: { [key: string]: any } = {};
-						
-							if (Object.keys(filterData).length > 0) {
-								const filters = Object.keys(filterData).map(key => {
-									bindVars[`value_${key}`] = filterData[key];
-									return `doc.${key} == @value_${key}`;
-								});
-								const filterQuery = `FILTER ${filters.join(' AND ')}`;
-								
-								// Build the query as a string
-								query = `
-									FOR doc IN ${collection}
-									${filterQuery}
-									LIMIT @limit
-									RETURN doc
-								`;
-							} else {
-								query = `
-									FOR doc IN ${collection}
-									LIMIT @limit
-									RETURN doc
-								`;
+							const returnAll = this.getNodeParameter('returnAll', i, false) as boolean;
+							const filter = this.getNodeParameter('filter', i, '{}') as string;
+							const filterData = JSON.parse(filter || '{}');
+							const conditions = this.getNodeParameter(
+								'getManyFilters.conditions',
+								i,
+								[],
+							) as IFilterCondition[];
+							const combinator = this.getNodeParameter('getManyFilterCombinator', i, 'AND') as string;
+							const sortFields = this.getNodeParameter('sort.fields', i, []) as IDataObject[];
+							const options = this.getNodeParameter('getManyOptions', i, {}) as IDataObject;
+							const offset = (options.offset as number) ?? 0;
+							const includeAttributes = splitList(options.includeAttributes as string);
+							const excludeAttributes = splitList(options.excludeAttributes as string);
+
+							const bindVars: { [key: string]: any } = {
+								'@collection': collection,
+							};
+							const filters: string[] = Object.keys(filterData).map((key, index) => {
+								bindVars[`equalAttribute${index}`] = getAttributePath(key);
+								bindVars[`equalValue${index}`] = filterData[key];
+								return `doc.@equalAttribute${index} == @equalValue${index}`;
+							});
+							if (conditions.length) {
+								filters.push(`(${buildFilterExpression(conditions, combinator, bindVars)})`);
+							}
+
+							const sorts = sortFields.map((field, index) => {
+								bindVars[`sortAttribute${index}`] = getAttributePath(field.attribute as string);
+								return `doc.@sortAttribute${index} ${field.direction === 'DESC' ? 'DESC' : 'ASC'}`;
+							});
+
+							let limitClause = '';
+							if (!returnAll) {
+								bindVars.offset = offset;
+								bindVars.limit = this.getNodeParameter('limit', i) as number;
+								limitClause = 'LIMIT @offset, @limit';
+							} else if (offset) {
+								// AQL has no offset without a count, so use the largest count it accepts
+								bindVars.offset = offset;
+								bindVars.limit = Number.MAX_SAFE_INTEGER;
+								limitClause = 'LIMIT @offset, @limit';
+							}
+
+							let returnExpression = 'doc';
+							if (includeAttributes.length) {
+								bindVars.includeAttributes = includeAttributes;
+								returnExpression = 'KEEP(doc, @includeAttributes)';
+							}
+							if (excludeAttributes.length) {
+								bindVars.excludeAttributes = excludeAttributes;
+								returnExpression = `UNSET(${returnExpression}, @excludeAttributes)`;
+							}
+
+							const cursor = await db.query(
+								`FOR doc IN @@collection
+								 ${filters.length ? `FILTER ${filters.join(' AND ')}` : ''}
+								 ${sorts.length ? `SORT ${sorts.join(', ')}` : ''}
+								 ${limitClause}
+								 RETURN ${returnExpression}`,
+								bindVars,
+								{ batchSize: (options.batchSize as number) ?? 1000, stream: returnAll },
+							);
+
+							// Fetch the documents batch by batch instead of as one large response
+							responseData = [];
+							for await (const batch of cursor.batches) {
+								responseData.push(...batch);
 							}
-						
-							// Add limit to bindVars
-							bindVars.limit = limit;
-						
-							// Execute the query
-							const cursor = await db.query(query, bindVars);
-							responseData = await cursor.all();
 							break;
 						}
 
@@ -853,62 +5627,362 @@ export class ArangoDb implements INodeType {
 							break;
 						}
 
+						case 'upsert': {
+							const documentData = this.getNodeParameter('documentData', i) as string;
+							const matchAttributes = this.getNodeParameter('matchAttributes', i) as string;
+							const updateData = this.getNodeParameter('updateData', i, '{}') as string;
+							const upsertMode = this.getNodeParameter('upsertMode', i) as string;
+							const insertDoc = JSON.parse(documentData);
+							const updateDoc = JSON.parse(updateData || '{}');
+
+							// Build the lookup document from the match attributes of the insert document
+							const search: { [key: string]: any } = {};
+							const attributes = splitList(matchAttributes);
+							if (attributes.length === 0) {
+								throw new NodeOperationError(this.getNode(), 'At least one match attribute is required', {
+									itemIndex: i,
+								});
+							}
+							for (const attribute of attributes) {
+								if (insertDoc[attribute] === undefined) {
+									throw new NodeOperationError(
+										this.getNode(),
+										`Match attribute "${attribute}" is missing from the document data`,
+										{ itemIndex: i },
+									);
+								}
+								search[attribute] = insertDoc[attribute];
+							}
+
+							const modification = upsertMode === 'replace' ? 'REPLACE' : 'UPDATE';
+							const cursor = await db.query(
+								`UPSERT @search
+								 INSERT @insert
+								 ${modification} @update
+								 IN @@collection
+								 RETURN { operation: OLD ? 'updated' : 'inserted', old: OLD, new: NEW }`,
+								{
+									'@collection': collection,
+									search: search,
+									insert: insertDoc,
+									update: Object.keys(updateDoc).length > 0 ? updateDoc : insertDoc,
+								}
+							);
+							const [result] = await cursor.all();
+							responseData = result;
+							break;
+						}
+
 						case 'query': {
 							const aqlQuery = this.getNodeParameter('aqlQuery', i) as string;
 							const queryParameters = this.getNodeParameter('queryParameters', i) as string;
 							const params = JSON.parse(queryParameters);
 							
-							const cursor = await db.query(aqlQuery, params);
-							responseData = await cursor.all();
+							const { queryOptions, maxRows, outputMode } = getCursorOptions(i);
+							const cursor = await db.query(aqlQuery, params, queryOptions);
+							responseData = formatCursorOutput(await readCursorBatches(cursor, maxRows), outputMode);
 							break;
 						}
 					}
 				} else if (resource === 'vectorSearch') {
 					const operation = this.getNodeParameter('vectorOperation', i) as string;
-					const vectorCollection = this.getNodeParameter('vectorCollection', i) as string;
+					const vectorCollection = await getCollectionName(
+						db,
+						this.getNodeParameter('vectorCollection', i) as INodeParameterResourceLocator,
+					);
 
 					switch (operation) {
-						case 'searchCosine': {
+						case 'hybridSearch':
+						case 'searchCosine':
+						case 'searchInnerProduct':
+						case 'searchL2': {
 							const queryVector = this.getNodeParameter('queryVector', i) as string;
 							const vectorField = this.getNodeParameter('vectorField', i) as string;
 							const topK = this.getNodeParameter('topK', i) as number;
+							const searchMode = this.getNodeParameter('vectorSearchMode', i) as string;
 							const vector = JSON.parse(queryVector);
-							
+
+							// Hybrid search runs the vector search with the chosen metric for a larger candidate list
+							const isHybrid = operation === 'hybridSearch';
+							let vectorOperation: string = operation;
+							let limit = topK;
+							if (isHybrid) {
+								const hybridMetric = this.getNodeParameter('hybridMetric', i) as string;
+								vectorOperation = Object.keys(vectorMetrics).find(
+									key => vectorMetrics[key].metric === hybridMetric,
+								)!;
+								limit = this.getNodeParameter('candidateCount', i) as number;
+							}
+							const { metric, sortOrder, scoreField } = vectorMetrics[vectorOperation];
+
+							const vectorFilters = this.getNodeParameter('vectorFilters', i, {}) as {
+								conditions?: IFilterCondition[];
+							};
+							const conditions = (vectorFilters.conditions ?? []).filter(c => c.attribute);
+
+							let approximate = searchMode === 'approximate';
+							let nProbe = 0;
+							if (approximate) {
+								nProbe = this.getNodeParameter('nProbe', i, 0) as number;
+								const fallbackToExact = this.getNodeParameter('fallbackToExact', i, false) as boolean;
+								const vectorIndex = await getVectorIndex(db, vectorCollection, vectorField, metric);
+
+								// The vector index can only be used with filters on its stored values,
+								// other filters between FOR and the sort make ArangoDB reject the query
+								const unstoredCondition = conditions.find(
+									condition => !vectorIndex?.storedValues?.includes(condition.attribute),
+								);
+
+								if (!vectorIndex) {
+									if (!fallbackToExact) {
+										throw new NodeOperationError(
+											this.getNode(),
+											`No vector index with the "${metric}" metric exists on "${vectorField}" in collection "${vectorCollection}"`,
+											{
+												itemIndex: i,
+												description:
+													'Create one with the Index resource, or enable "Fall Back to Exact Search"',
+											},
+										);
+									}
+									approximate = false;
+								} else if (unstoredCondition) {
+									if (!fallbackToExact) {
+										throw new NodeOperationError(
+											this.getNode(),
+											`The filtered attribute "${unstoredCondition.attribute}" is not a stored value of the vector index on "${vectorField}"`,
+											{
+												itemIndex: i,
+												description:
+													'Recreate the index with the attribute in its stored values, or enable "Fall Back to Exact Search"',
+											},
+										);
+									}
+									approximate = false;
+								}
+							}
+
+							const bindVars: { [key: string]: any } = {
+								'@collection': vectorCollection,
+								vectorField: vectorField,
+								vector: vector,
+								limit: limit,
+							};
+							if (approximate && nProbe > 0) {
+								bindVars.nProbe = nProbe;
+							}
+
+							// Metadata pre-filter, applied before documents are scored
+							const combinator = this.getNodeParameter('vectorFilterCombinator', i, 'AND') as string;
+							const filterClause = conditions.length
+								? `FILTER ${buildFilterExpression(conditions, combinator, bindVars)}`
+								: '';
+
+							// Score threshold, applied to the top K so the vector index can still be used
+							const vectorOptions = this.getNodeParameter('vectorOptions', i, {}) as IDataObject;
+							const threshold = sortOrder === 'ASC' ? vectorOptions.maxDistance : vectorOptions.minSimilarity;
+							let thresholdClause = '';
+							if (threshold !== undefined && !isHybrid) {
+								bindVars.threshold = threshold;
+								thresholdClause = `FILTER score ${sortOrder === 'ASC' ? '<=' : '>='} @threshold`;
+							}
+
+							// Attribute projection, so large embeddings can be left out of the output
+							const includeAttributes = splitList(vectorOptions.includeAttributes as string);
+							const excludeAttributes = splitList(vectorOptions.excludeAttributes as string);
+							if (isHybrid && includeAttributes.length && !includeAttributes.includes('_id')) {
+								// Results of both searches are matched by _id
+								includeAttributes.push('_id');
+							}
+							let projection = 'doc';
+							if (includeAttributes.length) {
+								bindVars.includeAttributes = includeAttributes;
+								projection = 'KEEP(doc, @includeAttributes)';
+							}
+							if (excludeAttributes.length) {
+								bindVars.excludeAttributes = excludeAttributes;
+								projection = `UNSET(${projection}, @excludeAttributes)`;
+							}
+
 							const cursor = await db.query(
 								`FOR doc IN @@collection
-								 LET similarity = COSINE_SIMILARITY(doc.@vectorField, @vector)
-								 SORT similarity DESC
-								 LIMIT @topK
-								 RETURN MERGE(doc, { _similarity: similarity })`,
-								{
-									'@collection': vectorCollection,
-									vectorField: vectorField,
-									vector: vector,
-									topK: topK
-								}
+								 ${filterClause}
+								 LET score = ${getVectorScoreExpression(vectorOperation, approximate, nProbe)}
+								 SORT score ${sortOrder}
+								 LIMIT @limit
+								 ${thresholdClause}
+								 RETURN MERGE(${projection}, { ${scoreField}: score })`,
+								bindVars
 							);
 							responseData = await cursor.all();
+
+							if (isHybrid) {
+								const hybridView = this.getNodeParameter('hybridView', i, '', {
+									extractValue: true,
+								}) as string;
+								const searchText = this.getNodeParameter('hybridSearchText', i) as string;
+								const searchField = this.getNodeParameter('hybridSearchField', i) as string;
+								const analyzer = this.getNodeParameter('hybridAnalyzer', i) as string;
+								const fusionMethod = this.getNodeParameter('fusionMethod', i) as string;
+
+								// The keyword search applies the same filters and projection as the vector search
+								const keywordBindVars: { [key: string]: any } = {
+									'@view': hybridView,
+									field: getAttributePath(searchField),
+									text: searchText,
+									analyzer: analyzer,
+									limit: limit,
+								};
+								const keywordFilterClause = conditions.length
+									? `FILTER ${buildFilterExpression(conditions, combinator, keywordBindVars)}`
+									: '';
+								if (includeAttributes.length) {
+									keywordBindVars.includeAttributes = includeAttributes;
+								}
+								if (excludeAttributes.length) {
+									keywordBindVars.excludeAttributes = excludeAttributes;
+								}
+
+								const keywordCursor = await db.query(
+									`FOR doc IN @@view
+									 SEARCH ANALYZER(doc.@field IN TOKENS(@text, @analyzer), @analyzer)
+									 ${keywordFilterClause}
+									 LET score = BM25(doc)
+									 SORT score DESC
+									 LIMIT @limit
+									 RETURN MERGE(${projection}, { _score: score })`,
+									keywordBindVars
+								);
+
+								responseData = fuseRankedLists(responseData, await keywordCursor.all(), {
+									vectorScoreField: scoreField,
+									lowerIsBetter: sortOrder === 'ASC',
+									method: fusionMethod,
+									rrfK: this.getNodeParameter('rrfK', i, 60) as number,
+									vectorWeight: this.getNodeParameter('vectorWeight', i, 0.5) as number,
+									keywordWeight: this.getNodeParameter('keywordWeight', i, 0.5) as number,
+									limit: topK,
+								});
+							}
+							break;
+						}
+					}
+				} else if (resource === 'search') {
+					const operation = this.getNodeParameter('searchOperation', i) as string;
+					const viewName = this.getNodeParameter('viewName', i, '', { extractValue: true }) as string;
+
+					switch (operation) {
+						case 'listViews': {
+							responseData = await db.listViews();
 							break;
 						}
 
-						case 'searchL2': {
-							const queryVector = this.getNodeParameter('queryVector', i) as string;
-							const vectorField = this.getNodeParameter('vectorField', i) as string;
-							const topK = this.getNodeParameter('topK', i) as number;
-							const vector = JSON.parse(queryVector);
-							
+						case 'createView':
+						case 'updateView': {
+							const viewType = this.getNodeParameter('viewType', i) as string;
+							let properties: { [key: string]: any };
+
+							if (viewType === 'search-alias') {
+								const viewIndexes = this.getNodeParameter('viewIndexes', i) as string;
+								properties = { indexes: JSON.parse(viewIndexes) };
+							} else {
+								const viewLinks = this.getNodeParameter('viewLinks', i) as string;
+								const viewProperties = this.getNodeParameter('viewProperties', i, '{}') as string;
+								properties = { ...JSON.parse(viewProperties || '{}'), links: JSON.parse(viewLinks) };
+							}
+
+							if (operation === 'createView') {
+								const view = await db.createView(viewName, {
+									type: viewType,
+									...properties,
+								} as CreateViewOptions);
+								responseData = await view.properties();
+							} else {
+								const viewUpdateMode = this.getNodeParameter('viewUpdateMode', i) as string;
+								const view = db.view(viewName);
+								responseData =
+									viewUpdateMode === 'replace'
+										? await view.replaceProperties(properties as ViewPropertiesOptions)
+										: await view.updateProperties(properties as UpdateViewPropertiesOptions);
+							}
+							break;
+						}
+
+						case 'dropView': {
+							const result = await db.view(viewName).drop();
+							responseData = { success: result };
+							break;
+						}
+
+						case 'search': {
+							const searchText = this.getNodeParameter('searchText', i) as string;
+							const searchField = this.getNodeParameter('searchField', i) as string;
+							const matchType = this.getNodeParameter('searchMatchType', i) as string;
+							const analyzer = this.getNodeParameter('searchAnalyzer', i) as string;
+							const scoring = this.getNodeParameter('searchScoring', i) as string;
+							const limit = this.getNodeParameter('searchLimit', i) as number;
+							const searchOptions = this.getNodeParameter('searchOptions', i, {}) as IDataObject;
+
+							const bindVars: { [key: string]: any } = {
+								'@view': viewName,
+								field: getAttributePath(searchField),
+								text: searchText,
+								analyzer: analyzer,
+								limit: limit,
+							};
+
+							const searchExpressions: { [matchType: string]: string } = {
+								phrase: 'PHRASE(doc.@field, @text)',
+								anyToken: 'doc.@field IN TOKENS(@text, @analyzer)',
+								allTokens: 'TOKENS(@text, @analyzer) ALL == doc.@field',
+								prefix: 'STARTS_WITH(doc.@field, TOKENS(@text, @analyzer), 1)',
+							};
+							const scoreExpressions: { [scoring: string]: string } = {
+								bm25: 'BM25(doc)',
+								tfidf: 'TFIDF(doc)',
+								none: 'null',
+							};
+							if (!searchExpressions[matchType]) {
+								throw new NodeOperationError(this.getNode(), `Unsupported match type "${matchType}"`, {
+									itemIndex: i,
+								});
+							}
+							if (!scoreExpressions[scoring]) {
+								throw new NodeOperationError(this.getNode(), `Unsupported scoring "${scoring}"`, {
+									itemIndex: i,
+								});
+							}
+
+							let sortClause = scoring !== 'none' ? 'SORT score DESC' : '';
+							if (searchOptions.sortAttribute) {
+								bindVars.sortAttribute = getAttributePath(searchOptions.sortAttribute as string);
+								sortClause = `SORT doc.@sortAttribute ${
+									searchOptions.sortDirection === 'ASC' ? 'ASC' : 'DESC'
+								}`;
+							}
+
+							// Matched text and byte offsets per field, for highlighting
+							let highlights = '';
+							if (searchOptions.highlights) {
+								bindVars.fieldPath = searchField;
+								highlights = `, _highlights: (
+									FOR info IN OFFSET_INFO(doc, [@fieldPath])
+									RETURN {
+										name: info.name,
+										offsets: info.offsets,
+										matches: (FOR offset IN info.offsets RETURN SUBSTRING_BYTES(VALUE(doc, info.name), offset[0], offset[1]))
+									}
+								)`;
+							}
+
 							const cursor = await db.query(
-								`FOR doc IN @@collection
-								 LET distance = L2_DISTANCE(doc.@vectorField, @vector)
-								 SORT distance ASC
-								 LIMIT @topK
-								 RETURN MERGE(doc, { _distance: distance })`,
-								{
-									'@collection': vectorCollection,
-									vectorField: vectorField,
-									vector: vector,
-									topK: topK
-								}
+								`FOR doc IN @@view
+								 SEARCH ANALYZER(${searchExpressions[matchType]}, @analyzer)
+								 LET score = ${scoreExpressions[scoring]}
+								 ${sortClause}
+								 LIMIT @limit
+								 RETURN MERGE(doc, { _score: score${highlights} })`,
+								bindVars
 							);
 							responseData = await cursor.all();
 							break;
@@ -916,15 +5990,35 @@ export class ArangoDb implements INodeType {
 					}
 				} else if (resource === 'graph') {
 					const operation = this.getNodeParameter('graphOperation', i) as string;
-					const graphName = this.getNodeParameter('graphName', i) as string;
+					// List Graphs has no graph name parameter
+					const graphName = getGraphName(
+						this.getNodeParameter('graphName', i, '') as INodeParameterResourceLocator,
+					);
 
 					switch (operation) {
 						case 'createGraph': {
 							const vertexCollections = this.getNodeParameter('vertexCollections', i) as string;
-							const edgeDefinitions = this.getNodeParameter('edgeDefinitions', i) as string;
 							const vertexArray = vertexCollections.split(',').map(v => v.trim()).filter(v => v);
-							const edgeDefs = JSON.parse(edgeDefinitions);
-							
+
+							// Version 1 nodes define the edge definitions as a JSON string
+							let edgeDefs: EdgeDefinitionOptions[];
+							if (this.getNode().typeVersion < 1.1) {
+								edgeDefs = JSON.parse(this.getNodeParameter('edgeDefinitions', i) as string);
+							} else {
+								const graphEdgeDefinitions = this.getNodeParameter('graphEdgeDefinitions', i, {}) as {
+									definitions?: Array<{
+										definitionCollection: INodeParameterResourceLocator;
+										fromCollections: string;
+										toCollections: string;
+									}>;
+								};
+								edgeDefs = (graphEdgeDefinitions.definitions ?? []).map(definition => ({
+									collection: String(definition.definitionCollection.value),
+									from: splitList(definition.fromCollections),
+									to: splitList(definition.toCollections),
+								}));
+							}
+
 							const graph = db.graph(graphName);
 							const result = await graph.create(edgeDefs, {
 								orphanCollections: vertexArray,
@@ -933,15 +6027,78 @@ export class ArangoDb implements INodeType {
 							break;
 						}
 
-						case 'deleteGraph': {
-							const graph = db.graph(graphName);
-							const result = await graph.drop();
-							responseData = { success: result };
+						case 'deleteGraph': {
+							const dropCollections = this.getNodeParameter('dropCollections', i, false) as boolean;
+							const graph = db.graph(graphName);
+							const result = await graph.drop(dropCollections);
+							responseData = { success: result };
+							break;
+						}
+
+						case 'getGraph': {
+							responseData = await db.graph(graphName).get();
+							break;
+						}
+
+						case 'listGraphs': {
+							responseData = await db.listGraphs();
+							break;
+						}
+
+						case 'addEdgeDefinition':
+						case 'replaceEdgeDefinition': {
+							const definitionCollection = this.getNodeParameter('definitionCollection', i, '', {
+								extractValue: true,
+							}) as string;
+							const edgeDefinition = {
+								collection: definitionCollection,
+								from: splitList(this.getNodeParameter('fromCollections', i) as string),
+								to: splitList(this.getNodeParameter('toCollections', i) as string),
+							};
+
+							const graph = db.graph(graphName);
+							responseData =
+								operation === 'addEdgeDefinition'
+									? await graph.addEdgeDefinition(edgeDefinition)
+									: await graph.replaceEdgeDefinition(edgeDefinition);
+							break;
+						}
+
+						case 'removeEdgeDefinition': {
+							const definitionCollection = this.getNodeParameter('definitionCollection', i, '', {
+								extractValue: true,
+							}) as string;
+							const dropCollection = this.getNodeParameter('dropCollection', i, false) as boolean;
+							responseData = await db
+								.graph(graphName)
+								.removeEdgeDefinition(definitionCollection, dropCollection);
+							break;
+						}
+
+						case 'addOrphanCollection': {
+							const orphanCollection = this.getNodeParameter('orphanCollection', i, '', {
+								extractValue: true,
+							}) as string;
+							responseData = await db.graph(graphName).addVertexCollection(orphanCollection);
+							break;
+						}
+
+						case 'removeOrphanCollection': {
+							const orphanCollection = this.getNodeParameter('orphanCollection', i, '', {
+								extractValue: true,
+							}) as string;
+							const dropCollection = this.getNodeParameter('dropCollection', i, false) as boolean;
+							responseData = await db
+								.graph(graphName)
+								.removeVertexCollection(orphanCollection, dropCollection);
 							break;
 						}
 
 						case 'addVertex': {
-							const vertexCollection = this.getNodeParameter('vertexCollection', i) as string;
+							const vertexCollection = await getCollectionName(
+								db,
+								this.getNodeParameter('vertexCollection', i) as INodeParameterResourceLocator,
+							);
 							const vertexData = this.getNodeParameter('vertexData', i) as string;
 							const data = JSON.parse(vertexData);
 							
@@ -953,7 +6110,10 @@ export class ArangoDb implements INodeType {
 						}
 
 						case 'addEdge': {
-							const edgeCollection = this.getNodeParameter('edgeCollection', i) as string;
+							const edgeCollection = await getCollectionName(
+								db,
+								this.getNodeParameter('edgeCollection', i) as INodeParameterResourceLocator,
+							);
 							const edgeData = this.getNodeParameter('edgeData', i) as string;
 							const data = JSON.parse(edgeData);
 							
@@ -966,82 +6126,597 @@ export class ArangoDb implements INodeType {
 
 						case 'traverse': {
 							const startVertex = this.getNodeParameter('startVertex', i) as string;
-							const direction = this.getNodeParameter('direction', i) as string;
+							const direction = getTraversalDirection(this.getNodeParameter('direction', i) as string);
 							const minDepth = this.getNodeParameter('minDepth', i) as number;
 							const maxDepth = this.getNodeParameter('maxDepth', i) as number;
-							
-							// Build the query string with direction as part of the query
+							const output = this.getNodeParameter('traversalOutput', i, 'full') as string;
+							const combinator = this.getNodeParameter('traversalFilterCombinator', i, 'AND') as string;
+							const traversalOptions = this.getNodeParameter('traversalOptions', i, {}) as IDataObject;
+
+							const bindVars: { [key: string]: any } = {
+								startVertex: startVertex,
+								graphName: graphName,
+								minDepth: minDepth,
+								maxDepth: maxDepth,
+							};
+
+							// Prune stops expanding a path as soon as any condition matches
+							const pruneConditions = (
+								(this.getNodeParameter('pruneConditions', i, {}) as {
+									conditions?: Array<IFilterCondition & { target: string }>;
+								}).conditions ?? []
+							).filter(c => c.attribute);
+							const pruneClause = pruneConditions.length
+								? `PRUNE ${pruneConditions
+										.map((condition, index) =>
+											buildFilterExpression(
+												[condition],
+												'OR',
+												bindVars,
+												condition.target === 'edge' ? 'e' : 'v',
+												`prune${index}`,
+											),
+										)
+										.join(' OR ')}`
+								: '';
+
+							const options: string[] = [];
+							for (const option of ['order', 'uniqueVertices', 'uniqueEdges']) {
+								if (traversalOptions[option]) {
+									bindVars[option] = traversalOptions[option];
+									options.push(`${option}: @${option}`);
+								}
+							}
+							if (traversalOptions.weightAttribute) {
+								bindVars.weightAttribute = traversalOptions.weightAttribute;
+								bindVars.defaultWeight = traversalOptions.defaultWeight ?? 1;
+								options.push('weightAttribute: @weightAttribute', 'defaultWeight: @defaultWeight');
+							}
+							const edgeCollections = splitList(traversalOptions.edgeCollections as string);
+							if (edgeCollections.length) {
+								bindVars.edgeCollections = edgeCollections;
+								options.push('edgeCollections: @edgeCollections');
+							}
+							const optionsClause = options.length ? `OPTIONS { ${options.join(', ')} }` : '';
+
+							const filters: string[] = [];
+							const vertexConditions = (
+								(this.getNodeParameter('vertexFilters', i, {}) as { conditions?: IFilterCondition[] })
+									.conditions ?? []
+							).filter(c => c.attribute);
+							if (vertexConditions.length) {
+								filters.push(`(${buildFilterExpression(vertexConditions, combinator, bindVars, 'v', 'vertex')})`);
+							}
+							const edgeConditions = (
+								(this.getNodeParameter('edgeFilters', i, {}) as { conditions?: IFilterCondition[] })
+									.conditions ?? []
+							).filter(c => c.attribute);
+							if (edgeConditions.length) {
+								filters.push(`(${buildFilterExpression(edgeConditions, combinator, bindVars, 'e', 'edge')})`);
+							}
+							const filterClause = filters.length
+								? `FILTER ${filters.join(combinator === 'OR' ? ' OR ' : ' AND ')}`
+								: '';
+
+							const returnClauses: { [output: string]: string } = {
+								full: 'RETURN { vertex: v, edge: e, path: p }',
+								vertices: 'RETURN DISTINCT v',
+								paths: 'RETURN p',
+							};
+
 							const query = `
-								FOR v, e, p IN ${minDepth}..${maxDepth} ${direction} @startVertex
+								FOR v, e, p IN @minDepth..@maxDepth ${direction} @startVertex
 								GRAPH @graphName
-								RETURN { vertex: v, edge: e, path: p }
+								${pruneClause}
+								${optionsClause}
+								${filterClause}
+								${returnClauses[output] ?? returnClauses.full}
 							`;
-							
-							const cursor = await db.query({
-								query: query,
-								bindVars: {
+
+							const { queryOptions, maxRows, outputMode } = getCursorOptions(i);
+							const cursor = await db.query(query, bindVars, queryOptions);
+							let batches = await readCursorBatches(cursor, maxRows);
+
+							if (output === 'paths') {
+								// Keep only paths that no other returned path extends
+								const pathKey = (path: IDataObject) =>
+									(path.vertices as IDataObject[]).map(vertex => vertex._id).join('\u0000');
+								const prefixes = new Set(
+									batches.flat().map((path: IDataObject) =>
+										pathKey({ vertices: (path.vertices as IDataObject[]).slice(0, -1) }),
+									),
+								);
+								batches = batches.map(rows => rows.filter(path => !prefixes.has(pathKey(path))));
+							}
+							responseData = formatCursorOutput(batches, outputMode);
+							break;
+						}
+
+						case 'shortestPath':
+						case 'kShortestPaths': {
+							const startVertex = this.getNodeParameter('startVertex', i) as string;
+							const endVertex = this.getNodeParameter('endVertex', i) as string;
+							const { queryOptions, maxRows, outputMode } = getCursorOptions(i);
+
+							// Version 1 nodes output one item per vertex of the outbound, unweighted shortest path
+							if (operation === 'shortestPath' && this.getNode().typeVersion < 1.1) {
+								const cursor = await db.query(
+									`FOR v, e IN OUTBOUND SHORTEST_PATH @startVertex TO @endVertex
+									 GRAPH @graphName
+									 RETURN { vertices: v, edges: e }`,
+									{
+										startVertex: startVertex,
+										endVertex: endVertex,
+										graphName: graphName,
+									},
+									queryOptions,
+								);
+								responseData = formatCursorOutput(await readCursorBatches(cursor, maxRows), outputMode);
+								break;
+							}
+
+							const direction = getTraversalDirection(this.getNodeParameter('direction', i) as string);
+							const weightAttribute = this.getNodeParameter('weightAttribute', i, '') as string;
+
+							const bindVars: { [key: string]: any } = {
+								startVertex: startVertex,
+								endVertex: endVertex,
+								graphName: graphName,
+							};
+							let options = '';
+							if (weightAttribute) {
+								bindVars.weightAttribute = weightAttribute;
+								bindVars.defaultWeight = this.getNodeParameter('defaultWeight', i, 1) as number;
+								options = 'OPTIONS { weightAttribute: @weightAttribute, defaultWeight: @defaultWeight }';
+							}
+
+							let query: string;
+							if (operation === 'shortestPath') {
+								// SHORTEST_PATH yields one row per vertex, collect them into a single path
+								const weight = weightAttribute
+									? 'SUM(FOR edge IN edges RETURN HAS(edge, @weightAttribute) ? edge[@weightAttribute] : @defaultWeight)'
+									: 'LENGTH(edges)';
+								query = `
+									LET steps = (
+										FOR v, e IN ${direction} SHORTEST_PATH @startVertex TO @endVertex
+										GRAPH @graphName
+										${options}
+										RETURN { vertex: v, edge: e }
+									)
+									FILTER LENGTH(steps) > 0
+									LET edges = steps[* FILTER CURRENT.edge != null].edge
+									RETURN { vertices: steps[*].vertex, edges: edges, weight: ${weight}, hops: LENGTH(edges) }
+								`;
+							} else {
+								bindVars.pathLimit = this.getNodeParameter('pathLimit', i) as number;
+								query = `
+									FOR p IN ${direction} K_SHORTEST_PATHS @startVertex TO @endVertex
+									GRAPH @graphName
+									${options}
+									LIMIT @pathLimit
+									RETURN { vertices: p.vertices, edges: p.edges, weight: p.weight, hops: LENGTH(p.edges) }
+								`;
+							}
+
+							const cursor = await db.query(query, bindVars, queryOptions);
+							responseData = formatCursorOutput(await readCursorBatches(cursor, maxRows), outputMode);
+							break;
+						}
+
+						case 'kPaths': {
+							const startVertex = this.getNodeParameter('startVertex', i) as string;
+							const endVertex = this.getNodeParameter('endVertex', i) as string;
+							const direction = getTraversalDirection(this.getNodeParameter('direction', i) as string);
+							const minDepth = this.getNodeParameter('minDepth', i) as number;
+							const maxDepth = this.getNodeParameter('maxDepth', i) as number;
+							const pathLimit = this.getNodeParameter('pathLimit', i) as number;
+
+							const { queryOptions, maxRows, outputMode } = getCursorOptions(i);
+							const cursor = await db.query(
+								`FOR p IN @minDepth..@maxDepth ${direction} K_PATHS @startVertex TO @endVertex
+								 GRAPH @graphName
+								 LIMIT @pathLimit
+								 RETURN { vertices: p.vertices, edges: p.edges, weight: LENGTH(p.edges), hops: LENGTH(p.edges) }`,
+								{
 									startVertex: startVertex,
-									graphName: graphName
-								}
-							});
-							responseData = await cursor.all();
+									endVertex: endVertex,
+									graphName: graphName,
+									minDepth: minDepth,
+									maxDepth: maxDepth,
+									pathLimit: pathLimit,
+								},
+								queryOptions,
+							);
+							responseData = formatCursorOutput(await readCursorBatches(cursor, maxRows), outputMode);
 							break;
 						}
 
-						case 'shortestPath': {
+						case 'allShortestPaths': {
 							const startVertex = this.getNodeParameter('startVertex', i) as string;
 							const endVertex = this.getNodeParameter('endVertex', i) as string;
-							
+							const direction = getTraversalDirection(this.getNodeParameter('direction', i) as string);
+
+							const { queryOptions, maxRows, outputMode } = getCursorOptions(i);
 							const cursor = await db.query(
-								`FOR v, e IN OUTBOUND SHORTEST_PATH @startVertex TO @endVertex 
+								`FOR p IN ${direction} ALL_SHORTEST_PATHS @startVertex TO @endVertex
 								 GRAPH @graphName
-								 RETURN {vertices: v, edges: e}`,
+								 RETURN { vertices: p.vertices, edges: p.edges, weight: LENGTH(p.edges), hops: LENGTH(p.edges) }`,
 								{
 									startVertex: startVertex,
 									endVertex: endVertex,
-									graphName: graphName
-								}
+									graphName: graphName,
+								},
+								queryOptions,
 							);
-							responseData = await cursor.all();
+							responseData = formatCursorOutput(await readCursorBatches(cursor, maxRows), outputMode);
 							break;
 						}
 
 						case 'getNeighbors': {
 							const startVertex = this.getNodeParameter('startVertex', i) as string;
-							const direction = this.getNodeParameter('direction', i) as string;
-							
-							const query = `
-								FOR v IN 1..1 ${direction} @startVertex
-								GRAPH @graphName
-								RETURN v
-							`;
-							
-							const cursor = await db.query({
-								query: query,
-								bindVars: {
+							const direction = getTraversalDirection(this.getNodeParameter('direction', i) as string);
+
+							const { queryOptions, maxRows, outputMode } = getCursorOptions(i);
+							const cursor = await db.query(
+								`FOR v IN 1..1 ${direction} @startVertex
+								 GRAPH @graphName
+								 RETURN v`,
+								{
 									startVertex: startVertex,
-									graphName: graphName
-								}
-							});
-							responseData = await cursor.all();
+									graphName: graphName,
+								},
+								queryOptions,
+							);
+							responseData = formatCursorOutput(await readCursorBatches(cursor, maxRows), outputMode);
 							break;
 						}
 
 						case 'deleteVertex': {
-							const vertexCollection = this.getNodeParameter('vertexCollection', i) as string;
+							const vertexCollection = await getCollectionName(
+								db,
+								this.getNodeParameter('vertexCollection', i) as INodeParameterResourceLocator,
+							);
 							const vertexToDeleteKey = this.getNodeParameter('vertexToDeleteKey', i) as string;
-							const result = await db.collection(vertexCollection).remove(vertexToDeleteKey);
+							// Removing through the graph also removes edges connected to the vertex
+							const result = await db
+								.graph(graphName)
+								.vertexCollection(vertexCollection)
+								.remove(vertexToDeleteKey);
 							responseData = { success: result };
 							break;
 						}
 
 						case 'deleteEdge': {
-							const edgeCollection = this.getNodeParameter('edgeCollection', i) as string;
+							const edgeCollection = await getCollectionName(
+								db,
+								this.getNodeParameter('edgeCollection', i) as INodeParameterResourceLocator,
+							);
 							const edgeToDeleteKey = this.getNodeParameter('edgeToDeleteKey', i) as string;
-							const result = await db.collection(edgeCollection).remove(edgeToDeleteKey);
+							const result = await db
+								.graph(graphName)
+								.edgeCollection(edgeCollection)
+								.remove(edgeToDeleteKey);
 							responseData = { success: result };
 							break;
 						}
+
+						case 'getVertex':
+						case 'updateVertex':
+						case 'replaceVertex': {
+							const vertexCollection = await getCollectionName(
+								db,
+								this.getNodeParameter('vertexCollection', i) as INodeParameterResourceLocator,
+							);
+							const vertexKey = this.getNodeParameter('vertexKey', i) as string;
+							const collection = db.graph(graphName).vertexCollection(vertexCollection);
+
+							if (operation === 'getVertex') {
+								responseData = await collection.vertex(vertexKey);
+								break;
+							}
+
+							const vertexData = this.getNodeParameter('vertexData', i) as string;
+							const data = JSON.parse(vertexData);
+							responseData =
+								operation === 'updateVertex'
+									? await collection.update(vertexKey, data, { returnNew: true })
+									: await collection.replace(vertexKey, data, { returnNew: true });
+							break;
+						}
+
+						case 'getEdge':
+						case 'updateEdge':
+						case 'replaceEdge': {
+							const edgeCollection = await getCollectionName(
+								db,
+								this.getNodeParameter('edgeCollection', i) as INodeParameterResourceLocator,
+							);
+							const edgeKey = this.getNodeParameter('edgeKey', i) as string;
+							const collection = db.graph(graphName).edgeCollection(edgeCollection);
+
+							if (operation === 'getEdge') {
+								responseData = await collection.edge(edgeKey);
+								break;
+							}
+
+							const edgeData = this.getNodeParameter('edgeData', i) as string;
+							const data = JSON.parse(edgeData);
+							responseData =
+								operation === 'updateEdge'
+									? await collection.update(edgeKey, data, { returnNew: true })
+									: await collection.replace(edgeKey, data, { returnNew: true });
+							break;
+						}
+
+						case 'exportSubgraph': {
+							const source = this.getNodeParameter('exportSource', i) as string;
+							const format = this.getNodeParameter('exportFormat', i) as string;
+							const exportOptions = this.getNodeParameter('exportOptions', i, {}) as IDataObject;
+							const { queryOptions, maxRows } = getCursorOptions(i);
+							let subgraph: ISubgraph;
+
+							if (source === 'traversal') {
+								const startVertex = this.getNodeParameter('exportStartVertex', i) as string;
+								const direction = getTraversalDirection(
+									this.getNodeParameter('exportDirection', i) as string,
+								);
+								const depth = this.getNodeParameter('exportDepth', i) as number;
+
+								// Collect each reachable vertex once, then every edge between collected vertices
+								const vertexCursor = await db.query(
+									`FOR v IN 0..@depth ${direction} @startVertex
+									 GRAPH @graphName
+									 OPTIONS { order: 'bfs', uniqueVertices: 'global' }
+									 RETURN v`,
+									{
+										startVertex: startVertex,
+										graphName: graphName,
+										depth: depth,
+									},
+									queryOptions,
+								);
+								const vertices = (await readCursorBatches(vertexCursor, maxRows)).flat();
+								const edgeCursor = await db.query(
+									`FOR vertex IN @ids
+									 FOR neighbor, e IN 1..1 ${direction} vertex
+									 GRAPH @graphName
+									 FILTER neighbor._id IN @ids
+									 RETURN DISTINCT e`,
+									{
+										ids: vertices.map((vertex) => vertex._id),
+										graphName: graphName,
+									},
+									queryOptions,
+								);
+								subgraph = {
+									vertices: vertices,
+									edges: (await readCursorBatches(edgeCursor, maxRows)).flat(),
+								};
+							} else {
+								let remainingVertices = this.getNodeParameter('exportMaxVertices', i) as number;
+								let remainingEdges = this.getNodeParameter('exportMaxEdges', i) as number;
+								const { edgeDefinitions, orphanCollections } = await db.graph(graphName).get();
+								const vertexCollections = new Set([
+									...edgeDefinitions.flatMap((definition) => [...definition.from, ...definition.to]),
+									...orphanCollections,
+								]);
+								subgraph = { vertices: [], edges: [] };
+
+								for (const vertexCollection of vertexCollections) {
+									if (remainingVertices <= 0) {
+										break;
+									}
+									const cursor = await db.query(
+										'FOR v IN @@collection LIMIT @limit RETURN v',
+										{ '@collection': vertexCollection, limit: remainingVertices },
+										queryOptions,
+									);
+									const vertices = (await readCursorBatches(cursor, maxRows)).flat();
+									for (const row of vertices) {
+										subgraph.vertices.push(row);
+									}
+									remainingVertices -= vertices.length;
+								}
+
+								const ids = subgraph.vertices.map((vertex) => vertex._id);
+								for (const { collection: edgeCollection } of edgeDefinitions) {
+									if (remainingEdges <= 0) {
+										break;
+									}
+									const cursor = await db.query(
+										`FOR e IN @@collection
+										 FILTER e._from IN @ids AND e._to IN @ids
+										 LIMIT @limit
+										 RETURN e`,
+										{ '@collection': edgeCollection, ids: ids, limit: remainingEdges },
+										queryOptions,
+									);
+									const edges = (await readCursorBatches(cursor, maxRows)).flat();
+									for (const row of edges) {
+										subgraph.edges.push(row);
+									}
+									remainingEdges -= edges.length;
+								}
+							}
+
+							subgraph = deduplicateSubgraph(subgraph);
+							if (format === 'json') {
+								responseData = { nodes: subgraph.vertices, edges: subgraph.edges };
+								break;
+							}
+
+							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+							const { extension, mimeType } = subgraphFormats[format];
+							const content = serializeSubgraph(subgraph, format, {
+								graphName: graphName,
+								labelAttribute: (exportOptions.labelAttribute as string) || 'name',
+							});
+							responseBinary = {
+								[binaryPropertyName]: await this.helpers.prepareBinaryData(
+									Buffer.from(content, 'utf8'),
+									(exportOptions.fileName as string) || `${graphName}.${extension}`,
+									mimeType,
+								),
+							};
+							responseData = {
+								graphName: graphName,
+								format: format,
+								vertexCount: subgraph.vertices.length,
+								edgeCount: subgraph.edges.length,
+							};
+							break;
+						}
+
+						case 'graphAnalytics': {
+							const algorithm = this.getNodeParameter('analyticsAlgorithm', i) as string;
+							const writeAttribute = (this.getNodeParameter('writeAttribute', i, '') as string).trim();
+							const returnAll = this.getNodeParameter('analyticsReturnAll', i) as boolean;
+							const { edgeDefinitions, orphanCollections } = await db.graph(graphName).get();
+							const vertexCollections = [
+								...new Set([
+									...edgeDefinitions.flatMap((definition) => [...definition.from, ...definition.to]),
+									...orphanCollections,
+								]),
+							];
+							const { queryOptions, maxRows } = getCursorOptions(i);
+							// Analyzing part of the graph gives wrong results, so reaching Max Rows fails instead
+							const appendAllRows = async (
+								target: any[],
+								collection: string,
+								query: string,
+								bindVars: IDataObject,
+							) => {
+								const cursor = await db.query(query, bindVars, queryOptions);
+								let rowCount = 0;
+								// Appended row by row, as spreading a large result into push() overflows the call stack
+								for (const batch of await readCursorBatches(cursor, maxRows && maxRows + 1)) {
+									for (const row of batch) {
+										target.push(row);
+									}
+									rowCount += batch.length;
+								}
+								if (maxRows && rowCount > maxRows) {
+									throw new NodeOperationError(
+										this.getNode(),
+										`"${collection}" has more than ${maxRows} documents`,
+										{
+											itemIndex: i,
+											description: 'Raise Max Rows in the cursor options to analyze the whole graph',
+										},
+									);
+								}
+							};
+							const analyticsResults: IDataObject[] = [];
+							let resultField: string;
+							let sortField: string;
+
+							if (algorithm === 'degree') {
+								resultField = this.getNodeParameter('degreeType', i) as string;
+								sortField = resultField;
+								for (const vertexCollection of vertexCollections) {
+									await appendAllRows(
+										analyticsResults,
+										vertexCollection,
+										`FOR v IN @@collection
+										 LET inDegree = LENGTH(FOR x IN 1..1 INBOUND v GRAPH @graphName RETURN 1)
+										 LET outDegree = LENGTH(FOR x IN 1..1 OUTBOUND v GRAPH @graphName RETURN 1)
+										 RETURN { _id: v._id, inDegree, outDegree, degree: inDegree + outDegree }`,
+										{ '@collection': vertexCollection, graphName: graphName },
+									);
+								}
+							} else {
+								// Components and PageRank are computed in n8n over the full structure of the graph
+								const vertexIds: string[] = [];
+								for (const vertexCollection of vertexCollections) {
+									await appendAllRows(vertexIds, vertexCollection, 'FOR v IN @@collection RETURN v._id', {
+										'@collection': vertexCollection,
+									});
+								}
+								const edges: Array<[string, string]> = [];
+								for (const { collection: edgeCollection } of edgeDefinitions) {
+									await appendAllRows(
+										edges,
+										edgeCollection,
+										'FOR e IN @@collection RETURN [e._from, e._to]',
+										{ '@collection': edgeCollection },
+									);
+								}
+
+								if (algorithm === 'connectedComponents') {
+									const components = getConnectedComponents(vertexIds, edges);
+									const sizes = new Map<string, number>();
+									for (const component of components.values()) {
+										sizes.set(component, (sizes.get(component) ?? 0) + 1);
+									}
+									for (const [id, component] of components) {
+										analyticsResults.push({
+											_id: id,
+											component: component,
+											componentSize: sizes.get(component),
+										});
+									}
+									resultField = 'component';
+									sortField = 'componentSize';
+								} else {
+									const ranks = getPageRank(vertexIds, edges, {
+										dampingFactor: this.getNodeParameter('dampingFactor', i) as number,
+										maxIterations: this.getNodeParameter('maxIterations', i) as number,
+										tolerance: 1e-6,
+									});
+									for (const [id, pageRank] of ranks) {
+										analyticsResults.push({ _id: id, pageRank: pageRank });
+									}
+									resultField = 'pageRank';
+									sortField = 'pageRank';
+								}
+							}
+
+							analyticsResults.sort((a, b) => (b[sortField] as number) - (a[sortField] as number));
+
+							if (writeAttribute) {
+								const valuesByCollection = new Map<string, IDataObject[]>();
+								for (const result of analyticsResults) {
+									const vertexCollection = (result._id as string).split('/')[0];
+									if (!valuesByCollection.has(vertexCollection)) {
+										valuesByCollection.set(vertexCollection, []);
+									}
+									valuesByCollection
+										.get(vertexCollection)!
+										.push({ _id: result._id, value: result[resultField] });
+								}
+								for (const [vertexCollection, values] of valuesByCollection) {
+									await db.query(
+										`FOR result IN @values
+										 UPDATE PARSE_IDENTIFIER(result._id).key WITH { [@attribute]: result.value } IN @@collection`,
+										{ '@collection': vertexCollection, values: values, attribute: writeAttribute },
+									);
+								}
+							}
+
+							responseData = returnAll
+								? analyticsResults
+								: analyticsResults.slice(0, this.getNodeParameter('analyticsLimit', i) as number);
+							break;
+						}
+
+						case 'getVertexEdges': {
+							const vertexId = this.getNodeParameter('vertexId', i) as string;
+							const direction = getTraversalDirection(this.getNodeParameter('edgeDirection', i) as string);
+
+							const { queryOptions, maxRows, outputMode } = getCursorOptions(i);
+							const cursor = await db.query(
+								`FOR v, e IN 1..1 ${direction} @vertexId
+								 GRAPH @graphName
+								 RETURN e`,
+								{
+									vertexId: vertexId,
+									graphName: graphName,
+								},
+								queryOptions,
+							);
+							responseData = formatCursorOutput(await readCursorBatches(cursor, maxRows), outputMode);
+							break;
+						}
 					}
 				} else if (resource === 'custom') {
 					const operation = this.getNodeParameter('customOperation', i) as string;
@@ -1054,23 +6729,210 @@ export class ArangoDb implements INodeType {
 							const batchSize = this.getNodeParameter('batchSize', i) as number;
 							const variables = JSON.parse(bindVariables);
 							
+							const queryOptions = this.getNodeParameter('queryOptions', i, {}) as IDataObject;
+
 							const options: any = { batchSize };
 							if (returnCount) {
 								options.count = true;
 							}
-							
-							const cursor = await db.query(customAqlQuery, variables, options);
-							responseData = await cursor.all();
-							
-							if (returnCount) {
+							if (queryOptions.maxRuntime) {
+								options.maxRuntime = queryOptions.maxRuntime;
+							}
+							if (queryOptions.memoryLimit) {
+								options.memoryLimit = queryOptions.memoryLimit;
+							}
+							if (queryOptions.timeout) {
+								options.timeout = queryOptions.timeout;
+							}
+
+							// The tag is a comment, so it shows up in the query lists without changing the query.
+							// Without the option the execution ID is used, an empty tag sends none.
+							const queryTag = (
+								(queryOptions.queryTag as string | undefined) ?? `n8n execution ${this.getExecutionId()}`
+							).trim();
+							const query = queryTag
+								? `/* ${queryTag.replace(/\*\//g, '* /')} */ ${customAqlQuery}`
+								: customAqlQuery;
+
+							const cursorOptions = getCursorOptions(i);
+							const cursor = await db.query(query, variables, {
+								...cursorOptions.queryOptions,
+								...options,
+							});
+							const batches = await readCursorBatches(cursor, cursorOptions.maxRows);
+
+							// Streamed queries are not counted by the server, so count the rows that were read
+							const count = returnCount
+								? (cursor.count ?? batches.reduce((total, rows) => total + rows.length, 0))
+								: undefined;
+							responseData = formatCursorOutput(
+								batches,
+								cursorOptions.outputMode ?? (returnCount ? 'array' : 'row'),
+								count,
+							);
+							break;
+						}
+				
+						case 'explainAql': {
+							const customAqlQuery = this.getNodeParameter('customAqlQuery', i) as string;
+							const bindVariables = this.getNodeParameter('bindVariables', i) as string;
+							const explainOptions = this.getNodeParameter('explainOptions', i, {}) as IDataObject;
+							const variables = JSON.parse(bindVariables || '{}');
+
+							const options: ExplainOptions & { allPlans?: false } = {};
+							if (explainOptions.maxNumberOfPlans !== undefined) {
+								options.maxNumberOfPlans = explainOptions.maxNumberOfPlans as number;
+							}
+							const rules = splitList(explainOptions.optimizerRules as string);
+							if (rules.length) {
+								options.optimizer = { rules };
+							}
+
+							if (explainOptions.allPlans) {
+								const result = await db.explain(customAqlQuery, variables, {
+									...options,
+									allPlans: true,
+								});
+								responseData = result.plans.map((plan, index) => ({
+									plan: index,
+									...summarizeExplainPlan(plan),
+									cacheable: result.cacheable,
+									warnings: result.warnings,
+								}));
+							} else {
+								const result = await db.explain(customAqlQuery, variables, options);
 								responseData = {
-									results: responseData,
-									count: cursor.count,
+									...summarizeExplainPlan(result.plan),
+									cacheable: result.cacheable,
+									warnings: result.warnings,
+									stats: result.stats,
 								};
 							}
 							break;
 						}
-				
+
+						case 'profileAql': {
+							const customAqlQuery = this.getNodeParameter('customAqlQuery', i) as string;
+							const bindVariables = this.getNodeParameter('bindVariables', i) as string;
+							const includeResults = this.getNodeParameter('includeResults', i) as boolean;
+							const variables = JSON.parse(bindVariables || '{}');
+
+							// Profile level 2 adds the runtime statistics of every execution node
+							const cursor = await db.query(customAqlQuery, variables, { profile: 2 });
+							const results = await cursor.all();
+							const { plan, profile, stats, warnings } = cursor.extra;
+							const planNodes = new Map(
+								((plan?.nodes as IDataObject[] | undefined) ?? []).map((node) => [node.id, node]),
+							);
+
+							responseData = {
+								executionTime: stats?.executionTime,
+								peakMemoryUsage: stats?.peakMemoryUsage,
+								phases: profile,
+								nodes: (stats?.nodes ?? []).map((node) => ({
+									id: node.id,
+									type: planNodes.get(node.id)?.type,
+									calls: node.calls,
+									items: node.items,
+									filtered: node.filter,
+									runtime: node.runtime,
+									estimatedCost: planNodes.get(node.id)?.estimatedCost,
+								})),
+								stats: stats,
+								warnings: warnings,
+								...(includeResults && { results }),
+							};
+							break;
+						}
+
+						case 'listRunningQueries': {
+							responseData = await db.listRunningQueries();
+							break;
+						}
+
+						case 'listSlowQueries': {
+							responseData = await db.listSlowQueries();
+							break;
+						}
+
+						case 'clearSlowQueries': {
+							await db.clearSlowQueries();
+							responseData = { success: true };
+							break;
+						}
+
+						case 'killQuery': {
+							const queryId = this.getNodeParameter('queryId', i) as string;
+							await db.killQuery(queryId);
+							responseData = { id: queryId, killed: true };
+							break;
+						}
+
+						case 'parseAql': {
+							const customAqlQuery = this.getNodeParameter('customAqlQuery', i) as string;
+							const includeAst = this.getNodeParameter('includeAst', i) as boolean;
+
+							// Invalid queries are reported as a result, so that workflows can branch on them
+							try {
+								const result = await db.parse(customAqlQuery);
+								responseData = {
+									valid: true,
+									collections: result.collections,
+									bindVars: result.bindVars,
+									...(includeAst && { ast: result.ast }),
+								};
+							} catch (error) {
+								if (!isArangoError(error) || error.code !== 400) {
+									throw error;
+								}
+								responseData = {
+									valid: false,
+									errorNum: error.errorNum,
+									error: error.message,
+								};
+							}
+							break;
+						}
+
+						case 'beginTransaction': {
+							const transactionCollections = this.getNodeParameter('transactionCollections', i) as string;
+							const transactionOptions = this.getNodeParameter('transactionOptions', i, {}) as IDataObject;
+							const collections = JSON.parse(transactionCollections);
+
+							const options: TransactionOptions = {};
+							if (transactionOptions.allowImplicit !== undefined) {
+								options.allowImplicit = transactionOptions.allowImplicit as boolean;
+							}
+							if (transactionOptions.waitForSync !== undefined) {
+								options.waitForSync = transactionOptions.waitForSync as boolean;
+							}
+							if (transactionOptions.lockTimeout) {
+								options.lockTimeout = transactionOptions.lockTimeout as number;
+							}
+							if (transactionOptions.maxTransactionSize) {
+								options.maxTransactionSize = transactionOptions.maxTransactionSize as number;
+							}
+
+							const transaction = await db.beginTransaction(collections, options);
+							const status = await transaction.get();
+							responseData = { transactionId: status.id, status: status.status };
+							break;
+						}
+
+						case 'commitTransaction': {
+							const transactionId = this.getNodeParameter('transactionId', i) as string;
+							const status = await db.transaction(transactionId).commit();
+							responseData = { transactionId: status.id, status: status.status };
+							break;
+						}
+
+						case 'abortTransaction': {
+							const transactionId = this.getNodeParameter('transactionId', i) as string;
+							const status = await db.transaction(transactionId).abort();
+							responseData = { transactionId: status.id, status: status.status };
+							break;
+						}
+
 						case 'runTransaction': {
 							const transactionCollections = this.getNodeParameter('transactionCollections', i) as string;
 							const transactionAction = this.getNodeParameter('transactionAction', i) as string;
@@ -1088,18 +6950,207 @@ export class ArangoDb implements INodeType {
 					}
 				} else if (resource === 'collection') {
 					const operation = this.getNodeParameter('collectionOperation', i) as string;
-					const collectionName = this.getNodeParameter('collectionName', i) as string;
+
+					if (operation === 'list') {
+						const excludeSystem = this.getNodeParameter('excludeSystem', i) as boolean;
+						responseData = await db.listCollections(excludeSystem);
+					} else {
+						const collectionName = this.getNodeParameter('collectionName', i) as string;
+						const collection = db.collection(collectionName);
+
+						switch (operation) {
+							case 'create': {
+								const options = this.getNodeParameter('collectionCreateOptions', i, {}) as IDataObject;
+
+								if (options.ignoreIfExists && (await collection.exists())) {
+									responseData = { ...(await collection.properties()), alreadyExisted: true };
+									break;
+								}
+
+								const createOptions: CreateCollectionOptions = getCollectionPropertiesOptions(options);
+								if (options.keyGenerator !== undefined || options.allowUserKeys !== undefined) {
+									createOptions.keyOptions = {
+										type: options.keyGenerator as KeyGenerator | undefined,
+										allowUserKeys: options.allowUserKeys as boolean | undefined,
+									};
+								}
+								if (options.numberOfShards !== undefined) {
+									createOptions.numberOfShards = options.numberOfShards as number;
+								}
+
+								const created =
+									options.collectionType === 'edge'
+										? await db.createCollection(collectionName, {
+												...createOptions,
+												type: CollectionType.EDGE_COLLECTION,
+											})
+										: await db.createCollection(collectionName, createOptions);
+								responseData = { ...(await created.properties()), alreadyExisted: false };
+								break;
+							}
+
+							case 'delete': {
+								const options = this.getNodeParameter('collectionDeleteOptions', i, {}) as IDataObject;
+								if (options.ignoreIfMissing && !(await collection.exists())) {
+									responseData = { name: collectionName, dropped: false };
+									break;
+								}
+								const result = await collection.drop();
+								responseData = { ...result, dropped: true };
+								break;
+							}
+
+							case 'count': {
+								responseData = await collection.count();
+								break;
+							}
+
+							case 'getFigures': {
+								responseData = await collection.figures();
+								break;
+							}
+
+							case 'getProperties': {
+								responseData = await collection.properties();
+								break;
+							}
+
+							case 'updateProperties': {
+								const properties = this.getNodeParameter('collectionProperties', i, {}) as IDataObject;
+								responseData = await collection.properties(getCollectionPropertiesOptions(properties));
+								break;
+							}
+
+							case 'rename': {
+								const newCollectionName = this.getNodeParameter('newCollectionName', i) as string;
+								responseData = await collection.rename(newCollectionName);
+								break;
+							}
+
+							case 'truncate': {
+								responseData = await collection.truncate();
+								break;
+							}
+						}
+					}
+				} else if (resource === 'index') {
+					const operation = this.getNodeParameter('indexOperation', i) as string;
+					const collection = db.collection(
+						await getCollectionName(
+							db,
+							this.getNodeParameter('indexCollection', i) as INodeParameterResourceLocator,
+						),
+					);
 
 					switch (operation) {
+						case 'list': {
+							responseData = await collection.indexes();
+							break;
+						}
+
+						case 'get': {
+							const indexSelector = this.getNodeParameter('indexSelector', i) as string;
+							responseData = await collection.index(indexSelector);
+							break;
+						}
+
 						case 'create': {
-							const result = await db.createCollection(collectionName);
-							responseData = result;
+							const indexType = this.getNodeParameter('indexType', i) as string;
+							const indexFields = this.getNodeParameter('indexFields', i) as string;
+							const indexName = this.getNodeParameter('indexName', i, '') as string;
+							const indexOptions = this.getNodeParameter('indexOptions', i, {}) as IDataObject;
+							const fields = splitList(indexFields);
+
+							const base: { name?: string; inBackground?: boolean } = {};
+							if (indexName) {
+								base.name = indexName;
+							}
+							if (indexOptions.inBackground !== undefined) {
+								base.inBackground = indexOptions.inBackground as boolean;
+							}
+
+							let definition: EnsureIndexOptions | EnsureFulltextIndexOptions | EnsureVectorIndexOptions;
+							switch (indexType) {
+								case 'persistent':
+									definition = {
+										...base,
+										type: 'persistent',
+										fields,
+										unique: indexOptions.unique as boolean | undefined,
+										sparse: indexOptions.sparse as boolean | undefined,
+										deduplicate: indexOptions.deduplicate as boolean | undefined,
+										cacheEnabled: indexOptions.cacheEnabled as boolean | undefined,
+									};
+									break;
+								case 'ttl':
+									definition = {
+										...base,
+										type: 'ttl',
+										fields: [fields[0]],
+										expireAfter: this.getNodeParameter('expireAfter', i) as number,
+									};
+									break;
+								case 'geo':
+									definition = {
+										...base,
+										type: 'geo',
+										fields: fields.length > 1 ? [fields[0], fields[1]] : [fields[0]],
+										geoJson: indexOptions.geoJson as boolean | undefined,
+									};
+									break;
+								case 'fulltext':
+									definition = {
+										...base,
+										type: 'fulltext',
+										fields: [fields[0]],
+										minLength: indexOptions.minLength as number | undefined,
+									};
+									break;
+								case 'inverted':
+									definition = {
+										...base,
+										type: 'inverted',
+										fields,
+										analyzer: (indexOptions.analyzer as string) || undefined,
+									};
+									break;
+								case 'vector':
+									definition = {
+										...base,
+										type: 'vector',
+										fields: [fields[0]],
+										params: {
+											metric: this.getNodeParameter('vectorMetric', i) as string,
+											dimension: this.getNodeParameter('vectorDimension', i) as number,
+											nLists: this.getNodeParameter('vectorNLists', i) as number,
+											defaultNProbe: indexOptions.defaultNProbe as number | undefined,
+											trainingIterations: indexOptions.trainingIterations as number | undefined,
+										},
+									};
+									if (indexOptions.storedValues) {
+										definition.storedValues = splitList(indexOptions.storedValues as string);
+									}
+									break;
+								default:
+									throw new NodeOperationError(this.getNode(), `Unsupported index type "${indexType}"`, {
+										itemIndex: i,
+									});
+							}
+
+							// The server returns the existing index when an identical one is already present
+							const { isNewlyCreated, ...index } = await ensureIndex(db, collection.name, definition);
+							responseData = {
+								...index,
+								isNewlyCreated,
+								alreadyExisted: !isNewlyCreated,
+							};
 							break;
 						}
 
-						case 'delete': {
-							const result = await db.collection(collectionName).drop();
-							responseData = result;
+						case 'drop': {
+							const indexSelector = this.getNodeParameter('indexSelector', i) as string;
+							const result = await collection.dropIndex(indexSelector);
+							responseData = { id: result.id, success: true };
 							break;
 						}
 					}
@@ -1107,13 +7158,17 @@ export class ArangoDb implements INodeType {
 
 				// Handle response data
 				if (Array.isArray(responseData)) {
-					returnData.push(...responseData.map(data => ({
-						json: data,
-						pairedItem: i,
-					})));
+					// Appended one by one, as spreading a large result into push() overflows the call stack
+					for (const data of responseData) {
+						returnData.push({
+							json: data,
+							pairedItem: i,
+						});
+					}
 				} else {
 					returnData.push({
 						json: responseData,
+						...(responseBinary && { binary: responseBinary }),
 						pairedItem: i,
 					});
 				}
@@ -0,0 +1,982 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	ILoadOptionsFunctions,
+	INodeListSearchItems,
+	INodeListSearchResult,
+	INodeParameterResourceLocator,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { ApplicationError } from 'n8n-workflow';
+import { Database } from 'arangojs';
+import type { CollectionPropertiesOptions, ValidationLevel } from 'arangojs/collections';
+import { CollectionType } from 'arangojs/collections';
+import type { Cursor } from 'arangojs/cursors';
+import type { EnsureIndexOptions, IndexDescription } from 'arangojs/indexes';
+import type { ExplainPlan } from 'arangojs/queries';
+
+/**
+ * Creates a database connection from the node's ArangoDB credentials.
+ *
+ * When a stream transaction ID is given, every request made through the
+ * connection runs inside that transaction.
+ */
+export async function getArangoDbConnection(
+	this: IExecuteFunctions | IPollFunctions | ILoadOptionsFunctions,
+	databaseName: string,
+	transactionId?: string,
+): Promise<Database> {
+	const credentials = await this.getCredentials('arangoDbCredentials');
+
+	const host = credentials.host as string;
+	const port = credentials.port as string;
+	const username = credentials.username as string;
+	const password = credentials.password as string;
+
+	return new Database({
+		url: `${host}:${port}`,
+		auth: { username, password },
+		databaseName,
+		fetchOptions: transactionId ? { headers: { 'x-arango-trx-id': transactionId } } : undefined,
+	});
+}
+
+/**
+ * Resolves a collection resource locator to the collection name.
+ * Plain strings are accepted for parameters saved before the locator was introduced.
+ */
+export async function getCollectionName(
+	db: Database,
+	locator: INodeParameterResourceLocator | string,
+): Promise<string> {
+	if (typeof locator === 'string') {
+		return locator;
+	}
+	if (locator.mode === 'id') {
+		const { name } = await db.collection(String(locator.value)).get();
+		return name;
+	}
+	return String(locator.value);
+}
+
+/**
+ * Resolves a graph resource locator to the graph name, stripping the `_graphs/` prefix of IDs.
+ */
+export function getGraphName(locator: INodeParameterResourceLocator | string): string {
+	if (typeof locator === 'string') {
+		return locator;
+	}
+	const value = String(locator.value);
+	return locator.mode === 'id' ? value.replace(/^_graphs\//, '') : value;
+}
+
+function filterResults(results: INodeListSearchItems[], filter?: string): INodeListSearchResult {
+	const search = filter?.toLowerCase();
+	return {
+		results: results
+			.filter((result) => !search || result.name.toLowerCase().includes(search))
+			.sort((a, b) => a.name.localeCompare(b.name)),
+	};
+}
+
+async function getCurrentDatabase(this: ILoadOptionsFunctions): Promise<Database> {
+	const database = this.getCurrentNodeParameter('database', { extractValue: true }) as string;
+	return await getArangoDbConnection.call(this, database || '_system');
+}
+
+async function listCollections(
+	this: ILoadOptionsFunctions,
+	filter: string | undefined,
+	type?: CollectionType,
+): Promise<INodeListSearchResult> {
+	const db = await getCurrentDatabase.call(this);
+	const collections = await db.listCollections();
+
+	return filterResults(
+		collections
+			.filter((collection) => type === undefined || collection.type === type)
+			.map((collection) => ({ name: collection.name, value: collection.name })),
+		filter,
+	);
+}
+
+async function getCurrentGraph(this: ILoadOptionsFunctions) {
+	const graphName = getGraphName(
+		this.getCurrentNodeParameter('graphName') as INodeParameterResourceLocator | string,
+	);
+	if (!graphName) {
+		return undefined;
+	}
+	const db = await getCurrentDatabase.call(this);
+	return await db.graph(graphName).get();
+}
+
+export async function searchDatabases(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const db = await getArangoDbConnection.call(this, '_system');
+	const databases = await db.listUserDatabases();
+
+	return filterResults(
+		databases.map((database) => ({ name: database, value: database })),
+		filter,
+	);
+}
+
+export async function searchCollections(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	return await listCollections.call(this, filter);
+}
+
+export async function searchDocumentCollections(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	return await listCollections.call(this, filter, CollectionType.DOCUMENT_COLLECTION);
+}
+
+export async function searchEdgeCollections(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	return await listCollections.call(this, filter, CollectionType.EDGE_COLLECTION);
+}
+
+export async function searchGraphs(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const db = await getCurrentDatabase.call(this);
+	const graphs = await db.listGraphs();
+
+	return filterResults(
+		graphs.map((graph) => ({ name: graph.name, value: graph.name })),
+		filter,
+	);
+}
+
+export async function searchGraphVertexCollections(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const graph = await getCurrentGraph.call(this);
+	if (!graph) {
+		return { results: [] };
+	}
+
+	const names = new Set<string>(graph.orphanCollections);
+	for (const definition of graph.edgeDefinitions) {
+		definition.from.forEach((name) => names.add(name));
+		definition.to.forEach((name) => names.add(name));
+	}
+
+	return filterResults(
+		[...names].map((name) => ({ name, value: name })),
+		filter,
+	);
+}
+
+export async function searchGraphEdgeCollections(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const graph = await getCurrentGraph.call(this);
+	if (!graph) {
+		return { results: [] };
+	}
+
+	return filterResults(
+		graph.edgeDefinitions.map((definition) => ({
+			name: definition.collection,
+			value: definition.collection,
+		})),
+		filter,
+	);
+}
+
+/**
+ * Options for creating a fulltext index, a type the ArangoDB client no longer describes.
+ */
+export type EnsureFulltextIndexOptions = {
+	type: 'fulltext';
+	fields: [string];
+	name?: string;
+	inBackground?: boolean;
+	minLength?: number;
+};
+
+/**
+ * Options for creating a vector index, a type the ArangoDB client does not describe yet.
+ */
+export type EnsureVectorIndexOptions = {
+	type: 'vector';
+	fields: [string];
+	name?: string;
+	inBackground?: boolean;
+	params: {
+		metric: string;
+		dimension: number;
+		nLists: number;
+		defaultNProbe?: number;
+		trainingIterations?: number;
+	};
+	storedValues?: string[];
+};
+
+/**
+ * A vector index as listed by the server.
+ */
+export type VectorIndexDescription = EnsureVectorIndexOptions & { id: string; name: string };
+
+/**
+ * Creates an index or returns the identical index that already exists, with
+ * `isNewlyCreated` telling the two apart. Unlike `collection.ensureIndex` it
+ * also accepts the fulltext and vector index types.
+ */
+export async function ensureIndex(
+	db: Database,
+	collection: string,
+	options: EnsureIndexOptions | EnsureFulltextIndexOptions | EnsureVectorIndexOptions,
+): Promise<IDataObject & { isNewlyCreated: boolean }> {
+	return await db.request({
+		method: 'POST',
+		pathname: '/_api/index',
+		body: options,
+		search: { collection },
+	});
+}
+
+/**
+ * How each vector search operation scores documents, both with an exact
+ * full scan and with ArangoDB's approximate vector index functions.
+ */
+export const vectorMetrics: {
+	[operation: string]: {
+		metric: string;
+		exactFunction: string;
+		approximateFunction: string;
+		sortOrder: 'ASC' | 'DESC';
+		scoreField: string;
+	};
+} = {
+	searchCosine: {
+		metric: 'cosine',
+		exactFunction: 'COSINE_SIMILARITY(doc.@vectorField, @vector)',
+		approximateFunction: 'APPROX_NEAR_COSINE',
+		sortOrder: 'DESC',
+		scoreField: '_similarity',
+	},
+	searchInnerProduct: {
+		metric: 'innerProduct',
+		exactFunction: 'SUM(FOR j IN 0..LENGTH(@vector) - 1 RETURN doc.@vectorField[j] * @vector[j])',
+		approximateFunction: 'APPROX_NEAR_INNER_PRODUCT',
+		sortOrder: 'DESC',
+		scoreField: '_similarity',
+	},
+	searchL2: {
+		metric: 'l2',
+		exactFunction: 'L2_DISTANCE(doc.@vectorField, @vector)',
+		approximateFunction: 'APPROX_NEAR_L2',
+		sortOrder: 'ASC',
+		scoreField: '_distance',
+	},
+};
+
+/**
+ * Returns the collection's vector index on the field using the given metric, if there is one.
+ */
+export async function getVectorIndex(
+	db: Database,
+	collection: string,
+	field: string,
+	metric: string,
+): Promise<VectorIndexDescription | undefined> {
+	const indexes: Array<IndexDescription | VectorIndexDescription> = await db
+		.collection(collection)
+		.indexes<IndexDescription>();
+	return indexes.find(
+		(index): index is VectorIndexDescription =>
+			index.type === 'vector' && index.fields[0] === field && index.params.metric === metric,
+	);
+}
+
+/**
+ * Builds the expression that scores `doc` against `@vector`, using the
+ * approximate vector index function when requested.
+ */
+export function getVectorScoreExpression(
+	operation: string,
+	approximate: boolean,
+	nProbe: number,
+): string {
+	const { exactFunction, approximateFunction } = vectorMetrics[operation];
+	if (!approximate) {
+		return exactFunction;
+	}
+	return nProbe > 0
+		? `${approximateFunction}(doc.@vectorField, @vector, { nProbe: @nProbe })`
+		: `${approximateFunction}(doc.@vectorField, @vector)`;
+}
+
+export interface IFilterCondition {
+	attribute: string;
+	operator: string;
+	value?: string;
+}
+
+/**
+ * AQL expressions of the filter operators, keyed by the values offered in the
+ * filter condition UI. `{attribute}` and `{value}` are replaced with bind parameters.
+ */
+const filterOperators: { [operator: string]: string } = {
+	equal: '{attribute} == {value}',
+	notEqual: '{attribute} != {value}',
+	lt: '{attribute} < {value}',
+	lte: '{attribute} <= {value}',
+	gt: '{attribute} > {value}',
+	gte: '{attribute} >= {value}',
+	in: '{attribute} IN {value}',
+	notIn: '{attribute} NOT IN {value}',
+	like: '{attribute} LIKE {value}',
+	exists: '{attribute} != null',
+	notExists: '{attribute} == null',
+	contains: '{value} IN {attribute}',
+	notContains: '{value} NOT IN {attribute}',
+};
+
+/**
+ * Splits a dotted attribute path into the segments that are bound as an array
+ * parameter (`doc.@attribute`), rejecting paths with empty segments.
+ */
+export function getAttributePath(path: string): string[] {
+	const segments = (path ?? '').trim().split('.');
+	if (segments.some((segment) => segment.trim() === '')) {
+		throw new ApplicationError(
+			`Invalid attribute path "${path}", expected attribute names separated by dots`,
+		);
+	}
+	return segments;
+}
+
+/**
+ * Parses a filter value entered as text, so that numbers, booleans, null and
+ * arrays can be compared without quoting. Anything that is not valid JSON is a string.
+ */
+export function parseFilterValue(value: string | undefined): unknown {
+	if (value === undefined) {
+		return null;
+	}
+	try {
+		return JSON.parse(value);
+	} catch {
+		return value;
+	}
+}
+
+/**
+ * Builds a filter expression for the given conditions. Attribute paths and
+ * values are added to `bindVars`, so nothing from the conditions ends up in the query text.
+ */
+export function buildFilterExpression(
+	conditions: IFilterCondition[],
+	combinator: string,
+	bindVars: { [key: string]: any },
+	variable = 'doc',
+	prefix = 'filter',
+): string {
+	const expressions = conditions.map((condition, index) => {
+		const expression = filterOperators[condition.operator];
+		if (!expression) {
+			throw new ApplicationError(`Unsupported filter operator "${condition.operator}"`);
+		}
+		bindVars[`${prefix}Attribute${index}`] = getAttributePath(condition.attribute);
+		// Operators such as exists take no value, and unused bind parameters are rejected
+		if (expression.includes('{value}')) {
+			bindVars[`${prefix}Value${index}`] = parseFilterValue(condition.value);
+		}
+		return expression
+			.replace('{attribute}', `${variable}.@${prefix}Attribute${index}`)
+			.replace('{value}', `@${prefix}Value${index}`);
+	});
+
+	return expressions.join(combinator === 'OR' ? ' OR ' : ' AND ');
+}
+
+/**
+ * Splits a comma-separated parameter into its trimmed, non-empty entries.
+ */
+export function splitList(value: string | undefined): string[] {
+	return (value ?? '')
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry);
+}
+
+export async function searchViews(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const db = await getCurrentDatabase.call(this);
+	const views = await db.listViews();
+
+	return filterResults(
+		views.map((view) => ({ name: `${view.name} (${view.type})`, value: view.name })),
+		filter,
+	);
+}
+
+/**
+ * Fuses a vector result list and a keyword result list into one ranking,
+ * either by reciprocal rank fusion or by a weighted sum of min-max normalised scores.
+ * Documents are matched by `_id`; both lists must be sorted best first.
+ */
+export function fuseRankedLists(
+	vectorResults: IDataObject[],
+	keywordResults: IDataObject[],
+	options: {
+		vectorScoreField: string;
+		lowerIsBetter: boolean;
+		method: string;
+		rrfK: number;
+		vectorWeight: number;
+		keywordWeight: number;
+		limit: number;
+	},
+): IDataObject[] {
+	const normalise = (scores: number[], invert: boolean) => {
+		const min = Math.min(...scores);
+		const max = Math.max(...scores);
+		return scores.map((score) => {
+			if (max === min) return 1;
+			return invert ? (max - score) / (max - min) : (score - min) / (max - min);
+		});
+	};
+
+	const fused = new Map<string, IDataObject>();
+	const addList = (
+		results: IDataObject[],
+		scoreField: string,
+		component: 'vector' | 'keyword',
+		invert: boolean,
+		weight: number,
+	) => {
+		const normalised = normalise(
+			results.map((result) => result[scoreField] as number),
+			invert,
+		);
+		results.forEach((result, index) => {
+			const id = result._id as string;
+			const { [scoreField]: score, ...document } = result;
+			const entry = fused.get(id) ?? {
+				...document,
+				_vectorScore: null,
+				_vectorRank: null,
+				_keywordScore: null,
+				_keywordRank: null,
+				_hybridScore: 0,
+			};
+			entry[`_${component}Score`] = score;
+			entry[`_${component}Rank`] = index + 1;
+			entry._hybridScore =
+				(entry._hybridScore as number) +
+				(options.method === 'rrf' ? 1 / (options.rrfK + index + 1) : weight * normalised[index]);
+			fused.set(id, entry);
+		});
+	};
+
+	addList(
+		vectorResults,
+		options.vectorScoreField,
+		'vector',
+		options.lowerIsBetter,
+		options.vectorWeight,
+	);
+	addList(keywordResults, '_score', 'keyword', false, options.keywordWeight);
+
+	return [...fused.values()]
+		.sort((a, b) => (b._hybridScore as number) - (a._hybridScore as number))
+		.slice(0, options.limit);
+}
+
+/**
+ * AQL traversal directions, keyed by the values of the direction parameter.
+ */
+const traversalDirections: { [direction: string]: string } = {
+	outbound: 'OUTBOUND',
+	inbound: 'INBOUND',
+	any: 'ANY',
+};
+
+/**
+ * Maps a direction parameter to its AQL keyword, rejecting anything else
+ * since the keyword cannot be passed as a bind parameter.
+ *
+ * Queries bind every user value, collection and attribute path as a bind
+ * parameter. Only keywords like this one, taken from a fixed list, are
+ * inserted into the query text.
+ */
+export function getTraversalDirection(direction: string): string {
+	const keyword = traversalDirections[direction?.toLowerCase()];
+	if (!keyword) {
+		throw new ApplicationError(
+			`Invalid direction "${direction}", expected one of: outbound, inbound, any`,
+		);
+	}
+	return keyword;
+}
+
+export interface ISubgraph {
+	vertices: IDataObject[];
+	edges: IDataObject[];
+}
+
+/**
+ * File extension and MIME type of each subgraph export format.
+ */
+export const subgraphFormats: {
+	[format: string]: { extension: string; mimeType: string };
+} = {
+	cytoscape: { extension: 'json', mimeType: 'application/json' },
+	dot: { extension: 'dot', mimeType: 'text/vnd.graphviz' },
+	gexf: { extension: 'gexf', mimeType: 'application/xml' },
+	graphml: { extension: 'graphml', mimeType: 'application/graphml+xml' },
+};
+
+/**
+ * System attributes that the export formats carry as IDs or endpoints
+ * instead of as data attributes.
+ */
+const subgraphSystemAttributes = ['_id', '_rev', '_from', '_to'];
+
+/**
+ * Removes vertices and edges that occur more than once, keeping the first
+ * occurrence of each document ID.
+ */
+export function deduplicateSubgraph(subgraph: ISubgraph): ISubgraph {
+	const unique = (documents: IDataObject[]) => {
+		const seen = new Set<string>();
+		return documents.filter((document) => {
+			if (!document || seen.has(document._id as string)) {
+				return false;
+			}
+			seen.add(document._id as string);
+			return true;
+		});
+	};
+	return { vertices: unique(subgraph.vertices), edges: unique(subgraph.edges) };
+}
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+function escapeDot(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatAttributeValue(value: unknown): string {
+	return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Collects the data attributes of the given documents with the type the
+ * XML formats declare for them; attributes with mixed types become strings.
+ */
+function getAttributeTypes(documents: IDataObject[]): Map<string, string> {
+	const types = new Map<string, string>();
+	for (const document of documents) {
+		for (const [name, value] of Object.entries(document)) {
+			if (subgraphSystemAttributes.includes(name) || value === null || value === undefined) {
+				continue;
+			}
+			const type =
+				typeof value === 'number' ? 'double' : typeof value === 'boolean' ? 'boolean' : 'string';
+			types.set(name, types.has(name) && types.get(name) !== type ? 'string' : type);
+		}
+	}
+	return types;
+}
+
+function getDataAttributes(
+	document: IDataObject,
+	attributes: Map<string, string>,
+): Array<[number, string]> {
+	return [...attributes.keys()]
+		.map((name, index): [number, unknown] => [index, document[name]])
+		.filter(([, value]) => value !== null && value !== undefined)
+		.map(([index, value]) => [index, formatAttributeValue(value)]);
+}
+
+function toGraphMl(subgraph: ISubgraph, graphName: string): string {
+	const vertexAttributes = getAttributeTypes(subgraph.vertices);
+	const edgeAttributes = getAttributeTypes(subgraph.edges);
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+	];
+
+	[...vertexAttributes].forEach(([name, type], index) => {
+		lines.push(
+			`  <key id="v${index}" for="node" attr.name="${escapeXml(name)}" attr.type="${type}"/>`,
+		);
+	});
+	[...edgeAttributes].forEach(([name, type], index) => {
+		lines.push(
+			`  <key id="e${index}" for="edge" attr.name="${escapeXml(name)}" attr.type="${type}"/>`,
+		);
+	});
+
+	lines.push(`  <graph id="${escapeXml(graphName)}" edgedefault="directed">`);
+	for (const vertex of subgraph.vertices) {
+		lines.push(`    <node id="${escapeXml(vertex._id as string)}">`);
+		for (const [index, value] of getDataAttributes(vertex, vertexAttributes)) {
+			lines.push(`      <data key="v${index}">${escapeXml(value)}</data>`);
+		}
+		lines.push('    </node>');
+	}
+	for (const edge of subgraph.edges) {
+		lines.push(
+			`    <edge id="${escapeXml(edge._id as string)}" source="${escapeXml(
+				edge._from as string,
+			)}" target="${escapeXml(edge._to as string)}">`,
+		);
+		for (const [index, value] of getDataAttributes(edge, edgeAttributes)) {
+			lines.push(`      <data key="e${index}">${escapeXml(value)}</data>`);
+		}
+		lines.push('    </edge>');
+	}
+	lines.push('  </graph>', '</graphml>');
+	return lines.join('\n');
+}
+
+function toGexf(subgraph: ISubgraph, graphName: string, labelAttribute: string): string {
+	const vertexAttributes = getAttributeTypes(subgraph.vertices);
+	const edgeAttributes = getAttributeTypes(subgraph.edges);
+	const gexfTypes: { [type: string]: string } = {
+		boolean: 'boolean',
+		double: 'double',
+		string: 'string',
+	};
+	const lines = [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+		`  <meta><description>${escapeXml(graphName)}</description></meta>`,
+		'  <graph mode="static" defaultedgetype="directed">',
+	];
+
+	const attributeDeclarations = (kind: string, attributes: Map<string, string>) => {
+		lines.push(`    <attributes class="${kind}">`);
+		[...attributes].forEach(([name, type], index) => {
+			lines.push(
+				`      <attribute id="${index}" title="${escapeXml(name)}" type="${gexfTypes[type]}"/>`,
+			);
+		});
+		lines.push('    </attributes>');
+	};
+	const attributeValues = (document: IDataObject, attributes: Map<string, string>) => {
+		const values = getDataAttributes(document, attributes);
+		if (!values.length) {
+			return;
+		}
+		lines.push('        <attvalues>');
+		for (const [index, value] of values) {
+			lines.push(`          <attvalue for="${index}" value="${escapeXml(value)}"/>`);
+		}
+		lines.push('        </attvalues>');
+	};
+
+	attributeDeclarations('node', vertexAttributes);
+	attributeDeclarations('edge', edgeAttributes);
+
+	lines.push('    <nodes>');
+	for (const vertex of subgraph.vertices) {
+		const label = formatAttributeValue(vertex[labelAttribute] ?? vertex._key);
+		lines.push(`      <node id="${escapeXml(vertex._id as string)}" label="${escapeXml(label)}">`);
+		attributeValues(vertex, vertexAttributes);
+		lines.push('      </node>');
+	}
+	lines.push('    </nodes>', '    <edges>');
+	for (const edge of subgraph.edges) {
+		lines.push(
+			`      <edge id="${escapeXml(edge._id as string)}" source="${escapeXml(
+				edge._from as string,
+			)}" target="${escapeXml(edge._to as string)}">`,
+		);
+		attributeValues(edge, edgeAttributes);
+		lines.push('      </edge>');
+	}
+	lines.push('    </edges>', '  </graph>', '</gexf>');
+	return lines.join('\n');
+}
+
+function toCytoscape(subgraph: ISubgraph): string {
+	const withoutSystemAttributes = (document: IDataObject) =>
+		Object.fromEntries(
+			Object.entries(document).filter(([name]) => !subgraphSystemAttributes.includes(name)),
+		);
+	return JSON.stringify(
+		{
+			elements: {
+				nodes: subgraph.vertices.map((vertex) => ({
+					data: { ...withoutSystemAttributes(vertex), id: vertex._id },
+				})),
+				edges: subgraph.edges.map((edge) => ({
+					data: {
+						...withoutSystemAttributes(edge),
+						id: edge._id,
+						source: edge._from,
+						target: edge._to,
+					},
+				})),
+			},
+		},
+		null,
+		2,
+	);
+}
+
+function toDot(subgraph: ISubgraph, graphName: string, labelAttribute: string): string {
+	const lines = [`digraph "${escapeDot(graphName)}" {`];
+	for (const vertex of subgraph.vertices) {
+		const label = formatAttributeValue(vertex[labelAttribute] ?? vertex._key);
+		lines.push(`  "${escapeDot(vertex._id as string)}" [label="${escapeDot(label)}"];`);
+	}
+	for (const edge of subgraph.edges) {
+		const label = edge[labelAttribute];
+		lines.push(
+			`  "${escapeDot(edge._from as string)}" -> "${escapeDot(edge._to as string)}"` +
+				(label === undefined || label === null
+					? ';'
+					: ` [label="${escapeDot(formatAttributeValue(label))}"];`),
+		);
+	}
+	lines.push('}');
+	return lines.join('\n');
+}
+
+/**
+ * Serializes a subgraph into one of the file formats of `subgraphFormats`.
+ * The label attribute names the vertex and edge attribute shown as label by
+ * the formats that have one, falling back to the vertex key.
+ */
+export function serializeSubgraph(
+	subgraph: ISubgraph,
+	format: string,
+	options: { graphName: string; labelAttribute: string },
+): string {
+	switch (format) {
+		case 'graphml':
+			return toGraphMl(subgraph, options.graphName);
+		case 'gexf':
+			return toGexf(subgraph, options.graphName, options.labelAttribute);
+		case 'cytoscape':
+			return toCytoscape(subgraph);
+		case 'dot':
+			return toDot(subgraph, options.graphName, options.labelAttribute);
+		default:
+			throw new ApplicationError(`Unsupported export format "${format}"`);
+	}
+}
+
+/**
+ * Groups vertices into weakly connected components, ignoring edge direction.
+ * Each vertex is mapped to the smallest vertex ID of its component.
+ */
+export function getConnectedComponents(
+	vertexIds: string[],
+	edges: Array<[string, string]>,
+): Map<string, string> {
+	const parents = new Map(vertexIds.map((id) => [id, id]));
+	const find = (id: string): string => {
+		let root = id;
+		while (parents.get(root) !== root) {
+			root = parents.get(root)!;
+		}
+		// Point every vertex on the way directly to the root
+		while (parents.get(id) !== root) {
+			const parent = parents.get(id)!;
+			parents.set(id, root);
+			id = parent;
+		}
+		return root;
+	};
+
+	for (const [from, to] of edges) {
+		if (!parents.has(from) || !parents.has(to)) {
+			continue;
+		}
+		const fromRoot = find(from);
+		const toRoot = find(to);
+		if (fromRoot !== toRoot) {
+			parents.set(fromRoot < toRoot ? toRoot : fromRoot, fromRoot < toRoot ? fromRoot : toRoot);
+		}
+	}
+
+	return new Map(vertexIds.map((id) => [id, find(id)]));
+}
+
+/**
+ * Computes the PageRank of each vertex by power iteration. The rank of
+ * vertices without outgoing edges is spread evenly over all vertices.
+ */
+export function getPageRank(
+	vertexIds: string[],
+	edges: Array<[string, string]>,
+	options: { dampingFactor: number; maxIterations: number; tolerance: number },
+): Map<string, number> {
+	const count = vertexIds.length;
+	const index = new Map(vertexIds.map((id, position) => [id, position]));
+	const outgoing: number[][] = vertexIds.map(() => []);
+	for (const [from, to] of edges) {
+		if (index.has(from) && index.has(to)) {
+			outgoing[index.get(from)!].push(index.get(to)!);
+		}
+	}
+
+	let ranks: number[] = new Array(count).fill(1 / count);
+	for (let iteration = 0; iteration < options.maxIterations; iteration++) {
+		const danglingRank = ranks.reduce(
+			(sum, rank, position) => (outgoing[position].length ? sum : sum + rank),
+			0,
+		);
+		const base = (1 - options.dampingFactor + options.dampingFactor * danglingRank) / count;
+		const next: number[] = new Array(count).fill(base);
+		outgoing.forEach((targets, position) => {
+			const share = (options.dampingFactor * ranks[position]) / targets.length;
+			for (const target of targets) {
+				next[target] += share;
+			}
+		});
+
+		const change = next.reduce((sum, rank, position) => sum + Math.abs(rank - ranks[position]), 0);
+		ranks = next;
+		if (change < options.tolerance) {
+			break;
+		}
+	}
+
+	return new Map(vertexIds.map((id, position) => [id, ranks[position]]));
+}
+
+/**
+ * Builds the collection properties shared by the create and update collection
+ * operations from their options. The schema is only set when a rule is given.
+ */
+export function getCollectionPropertiesOptions(options: IDataObject): CollectionPropertiesOptions {
+	const properties: CollectionPropertiesOptions = {};
+	if (options.waitForSync !== undefined) {
+		properties.waitForSync = options.waitForSync as boolean;
+	}
+	if (options.replicationFactor !== undefined) {
+		properties.replicationFactor = options.replicationFactor as number;
+	}
+	if (options.cacheEnabled !== undefined) {
+		properties.cacheEnabled = options.cacheEnabled as boolean;
+	}
+
+	const rule =
+		typeof options.schemaRule === 'string'
+			? JSON.parse(options.schemaRule || '{}')
+			: (options.schemaRule ?? {});
+	if (Object.keys(rule).length) {
+		properties.schema = {
+			rule,
+			level: (options.schemaLevel as ValidationLevel) ?? 'strict',
+			message: (options.schemaMessage as string) || undefined,
+		};
+	}
+	return properties;
+}
+
+/**
+ * Summarizes an AQL execution plan: its cost, the collections it reads and
+ * writes, the optimizer rules that were applied and the indexes each
+ * execution node uses. The full list of execution nodes is kept as `nodes`.
+ */
+export function summarizeExplainPlan(plan: ExplainPlan): IDataObject {
+	const indexes = plan.nodes.flatMap((node) =>
+		((node.indexes as IDataObject[] | undefined) ?? []).map((index) => ({
+			nodeId: node.id,
+			nodeType: node.type,
+			collection: node.collection,
+			id: index.id,
+			name: index.name,
+			type: index.type,
+			fields: index.fields,
+			unique: index.unique,
+			sparse: index.sparse,
+		})),
+	);
+
+	return {
+		estimatedCost: plan.estimatedCost,
+		estimatedNrItems: plan.estimatedNrItems,
+		isModificationQuery: plan.isModificationQuery,
+		collections: plan.collections,
+		rules: plan.rules,
+		indexes,
+		nodes: plan.nodes,
+	};
+}
+
+/**
+ * Reads a cursor batch by batch and stops once `maxRows` rows were read, so
+ * that a large result is never loaded as a whole. The unread rest of the
+ * cursor is released on the server. A `maxRows` of 0 reads everything.
+ */
+export async function readCursorBatches(cursor: Cursor, maxRows = 0): Promise<any[][]> {
+	const batches: any[][] = [];
+	let rowCount = 0;
+
+	for await (const batch of cursor.batches) {
+		const rows = maxRows > 0 ? batch.slice(0, maxRows - rowCount) : batch;
+		batches.push(rows);
+		rowCount += rows.length;
+		if (maxRows > 0 && rowCount >= maxRows) {
+			if (cursor.hasNext) {
+				await cursor.kill();
+			}
+			break;
+		}
+	}
+
+	return batches;
+}
+
+/**
+ * Shapes the batches read from a cursor into output items: one item per row
+ * (rows that are not objects are wrapped as `value`), one item per batch, or
+ * a single item with all rows. When a count is given it is added to each item,
+ * and an empty result still yields one item carrying the count.
+ */
+export function formatCursorOutput(
+	batches: any[][],
+	outputMode = 'row',
+	count?: number,
+): IDataObject | IDataObject[] {
+	const countField = count === undefined ? {} : { count };
+
+	if (outputMode === 'array') {
+		return { results: batches.flat(), ...countField };
+	}
+	const rows = batches.flat();
+	if (!rows.length && count !== undefined) {
+		return outputMode === 'batch' ? [{ batch: 0, results: [], count }] : [{ _count: count }];
+	}
+	if (outputMode === 'batch') {
+		return batches.map((batch, index) => ({ batch: index, results: batch, ...countField }));
+	}
+	return rows.map((row) => {
+		const json =
+			typeof row === 'object' && row !== null && !Array.isArray(row) ? row : { value: row };
+		return count === undefined ? json : { ...json, _count: count };
+	});
+}
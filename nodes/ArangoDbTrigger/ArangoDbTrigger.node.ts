@@ -0,0 +1,353 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeParameterResourceLocator,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+} from 'n8n-workflow';
+import { NodeConnectionType, NodeOperationError } from 'n8n-workflow';
+
+import {
+	getArangoDbConnection,
+	getAttributePath,
+	getCollectionName,
+	searchCollections,
+	searchDatabases,
+} from '../ArangoDb/GenericFunctions';
+
+export class ArangoDbTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'ArangoDB Trigger',
+		name: 'arangoDbTrigger',
+		icon: 'file:arangodb.svg',
+		group: ['trigger'],
+		version: 1,
+		subtitle:
+			'={{$parameter["mode"] === "collection" ? $parameter["collection"].value : "Custom Query"}}',
+		description: 'Starts the workflow when documents are created or updated in ArangoDB',
+		defaults: {
+			name: 'ArangoDB Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: [NodeConnectionType.Main],
+		credentials: [
+			{
+				// eslint-disable-next-line n8n-nodes-base/node-class-description-credentials-name-unsuffixed
+				name: 'arangoDbCredentials',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Database',
+				name: 'database',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '_system' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchDatabases',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. _system',
+					},
+				],
+				required: true,
+				description: 'The database to connect to',
+			},
+			{
+				displayName: 'Mode',
+				name: 'mode',
+				type: 'options',
+				options: [
+					{
+						name: 'Collection',
+						value: 'collection',
+						description: 'Watch a collection for new or changed documents',
+					},
+					{
+						name: 'Custom Query',
+						value: 'query',
+						description: 'Run a custom AQL query that filters by the last seen cursor value',
+					},
+				],
+				default: 'collection',
+			},
+			{
+				displayName: 'Collection',
+				name: 'collection',
+				type: 'resourceLocator',
+				displayOptions: {
+					show: {
+						mode: ['collection'],
+					},
+				},
+				default: { mode: 'list', value: '' },
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						typeOptions: {
+							searchListMethod: 'searchCollections',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By Name',
+						name: 'name',
+						type: 'string',
+						placeholder: 'e.g. orders',
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. 12345',
+					},
+				],
+				required: true,
+				description: 'The collection to watch',
+			},
+			{
+				displayName: 'AQL Query',
+				name: 'aqlQuery',
+				type: 'string',
+				displayOptions: {
+					show: {
+						mode: ['query'],
+					},
+				},
+				default: '',
+				placeholder:
+					'FOR doc IN orders FILTER @cursor == null || doc.updatedAt > @cursor SORT doc.updatedAt ASC LIMIT @limit RETURN doc',
+				required: true,
+				description:
+					'The AQL query to run on each poll. The last seen cursor value is bound as @cursor (null on the first run), the keys of the documents already emitted with that value as @seenKeys and the limit as @limit. Only the variables the query uses are bound.',
+				typeOptions: {
+					rows: 5,
+				},
+			},
+			{
+				displayName: 'Bind Variables',
+				name: 'bindVariables',
+				type: 'json',
+				displayOptions: {
+					show: {
+						mode: ['query'],
+					},
+				},
+				default: '{}',
+				description: 'Additional variables to bind to the query',
+			},
+			{
+				displayName: 'Cursor Field',
+				name: 'cursorField',
+				type: 'string',
+				default: 'updatedAt',
+				required: true,
+				description:
+					'The attribute that increases whenever a document is created or changed, such as a timestamp or a monotonic key. Use dots for nested attributes.',
+			},
+			{
+				displayName: 'Compare Cursor As',
+				name: 'cursorType',
+				type: 'options',
+				options: [
+					{
+						name: 'Number',
+						value: 'number',
+						description:
+							'Convert the values to numbers first, for numeric keys stored as strings such as _key, where "10" would otherwise sort before "9"',
+					},
+					{
+						name: 'Stored Value',
+						value: 'value',
+						description: 'Compare the values as they are stored, for numbers and timestamps',
+					},
+				],
+				default: 'value',
+				description: 'How cursor values are compared to find newer documents',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+		],
+	};
+
+	methods = {
+		listSearch: {
+			searchCollections,
+			searchDatabases,
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const staticData = this.getWorkflowStaticData('node');
+		const database = this.getNodeParameter('database', '', { extractValue: true }) as string;
+		const mode = this.getNodeParameter('mode') as string;
+		const cursorField = this.getNodeParameter('cursorField') as string;
+		let cursorPath: string[];
+		try {
+			cursorPath = getAttributePath(cursorField);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error);
+		}
+		const cursorType = this.getNodeParameter('cursorType', 'value') as string;
+		// Only this fixed expression is inserted into the queries, the attribute path itself is bound
+		const cursorExpression =
+			cursorType === 'number' ? 'TO_NUMBER(doc.@cursorField)' : 'doc.@cursorField';
+		const getCursorValue = (document: IDataObject) => {
+			const value = cursorPath.reduce<any>((parent, segment) => parent?.[segment], document);
+			return cursorType === 'number' && value !== undefined && value !== null
+				? Number(value)
+				: value;
+		};
+		const limit = this.getNodeParameter('limit') as number;
+		const isManual = this.getMode() === 'manual';
+
+		const db = await getArangoDbConnection.call(this, database);
+
+		// The manual test fetch ignores the stored position so that a sample is always returned
+		const lastCursor = isManual ? null : (staticData.lastCursor ?? null);
+		// Documents sharing the stored value are matched again, so the ones already emitted are skipped by key
+		const seenKeys = isManual ? [] : ((staticData.lastCursorKeys as string[] | undefined) ?? []);
+		// The stored position stays null while the collection has no documents with the cursor field,
+		// so the first poll is tracked separately. Positions stored without the flag count as initialized.
+		const initialized = staticData.initialized === true || lastCursor !== null;
+		let documents: IDataObject[];
+
+		try {
+			if (mode === 'collection') {
+				const collection = await getCollectionName(
+					db,
+					this.getNodeParameter('collection') as INodeParameterResourceLocator,
+				);
+
+				if (isManual) {
+					const cursor = await db.query(
+						`FOR doc IN @@collection
+						 SORT ${cursorExpression} DESC
+						 LIMIT 1
+						 RETURN doc`,
+						{
+							'@collection': collection,
+							cursorField: cursorPath,
+						},
+					);
+					documents = await cursor.all();
+				} else if (!initialized) {
+					// On the first poll only remember the current position, existing documents are not emitted
+					const cursor = await db.query(
+						`LET position = FIRST(
+							FOR doc IN @@collection
+							FILTER doc.@cursorField != null
+							SORT ${cursorExpression} DESC
+							LIMIT 1
+							RETURN ${cursorExpression}
+						 )
+						 RETURN {
+							position,
+							keys: position == null ? [] : (
+								FOR doc IN @@collection
+								FILTER doc.@cursorField != null && ${cursorExpression} == position
+								RETURN doc._key
+							),
+						 }`,
+						{
+							'@collection': collection,
+							cursorField: cursorPath,
+						},
+					);
+					const [{ position, keys }] = await cursor.all();
+					staticData.lastCursor = position ?? null;
+					staticData.lastCursorKeys = keys;
+					staticData.initialized = true;
+					return null;
+				} else {
+					const cursor = await db.query(
+						`FOR doc IN @@collection
+						 FILTER doc.@cursorField != null && ${cursorExpression} >= @cursor
+						 FILTER ${cursorExpression} != @cursor || doc._key NOT IN @seenKeys
+						 SORT ${cursorExpression} ASC
+						 LIMIT @limit
+						 RETURN doc`,
+						{
+							'@collection': collection,
+							cursorField: cursorPath,
+							cursor: lastCursor,
+							seenKeys: seenKeys,
+							limit: limit,
+						},
+					);
+					documents = await cursor.all();
+				}
+			} else {
+				const aqlQuery = this.getNodeParameter('aqlQuery') as string;
+				const bindVariables = this.getNodeParameter('bindVariables') as string;
+				const variables = JSON.parse(bindVariables);
+
+				// ArangoDB rejects bind variables that the query does not declare
+				const pollVariables: IDataObject = {
+					cursor: lastCursor,
+					limit: isManual ? 1 : limit,
+					seenKeys: seenKeys,
+				};
+				for (const [name, value] of Object.entries(pollVariables)) {
+					if (new RegExp(`(?<!@)@${name}\\b`).test(aqlQuery)) {
+						variables[name] = value;
+					}
+				}
+
+				const cursor = await db.query(aqlQuery, variables);
+				documents = await cursor.all();
+			}
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error);
+		}
+
+		if (isManual) {
+			return documents.length ? [this.helpers.returnJsonArray(documents.slice(0, 1))] : null;
+		}
+
+		// Advance the stored position to the highest cursor value that was emitted and remember
+		// the keys emitted with it
+		staticData.lastCursorKeys = [...seenKeys];
+		for (const document of documents) {
+			const value = getCursorValue(document);
+			if (value === undefined || value === null) {
+				continue;
+			}
+			if (staticData.lastCursor == null || value > staticData.lastCursor) {
+				staticData.lastCursor = value;
+				staticData.lastCursorKeys = [];
+			}
+			if (value === staticData.lastCursor && document._key !== undefined) {
+				(staticData.lastCursorKeys as string[]).push(document._key as string);
+			}
+		}
+
+		if (!documents.length) {
+			return null;
+		}
+
+		return [this.helpers.returnJsonArray(documents)];
+	}
+}